@@ -0,0 +1,204 @@
+///<reference path="game.ts"/>
+// AUDIO
+//
+// Sound effects play on the world's gameplay events rather than being called from the game itself. Hosts
+// pick the backend: Web Audio in the browser, and a silent one when headless.
+
+enum Sound {
+    HOP,
+    SPLASH,
+    SQUASH,
+    HOME,
+    TIME_LOW,
+    GAME_OVER
+}
+
+interface AudioSettings {
+    volume: number; // 0 to 1, for everything
+    music: number;  // 0 to 1, of volume
+    muted: boolean;
+}
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {volume: 0.6, music: 0.5, muted: false};
+
+interface AudioBackend {
+    settings: AudioSettings;
+    play(sound: Sound): void;
+    startMusic(): void;
+    stopMusic(): void;
+    applySettings(): void; // after changing settings
+}
+
+class NullAudio implements AudioBackend {
+    settings: AudioSettings = {volume: 0, music: 0, muted: true};
+
+    play(sound: Sound) {}
+    startMusic() {}
+    stopMusic() {}
+    applySettings() {}
+}
+
+// plays the sounds for world's events through audio
+function connectAudio(world: World, audio: AudioBackend) {
+    world.on(GameEvent.HOP, () => audio.play(Sound.HOP));
+    world.on(GameEvent.DIED, (frog: Entity, cause: DeathCause) =>
+        audio.play((cause === DeathCause.DROWNED) ? Sound.SPLASH : Sound.SQUASH));
+    world.on(GameEvent.HOME, () => audio.play(Sound.HOME));
+    world.on(GameEvent.TIME_LOW, () => audio.play(Sound.TIME_LOW));
+    world.on(GameEvent.GAME_OVER, () => {
+        audio.stopMusic();
+        audio.play(Sound.GAME_OVER);
+    });
+}
+
+// A sweep from one frequency to another; noise sweeps the cutoff of a low-pass filter instead
+interface Tone {
+    wave: "square" | "triangle" | "noise";
+    from: number; // Hz
+    to: number;
+    start: number; // seconds
+    length: number;
+    level?: number; // 1 if not given
+}
+
+const SAMPLE_RATE = 22050;
+
+const SOUND_TONES: {[sound: number]: Tone[]} = {
+    [Sound.HOP]: [{wave: "square", from: 220, to: 660, start: 0, length: 0.08, level: 0.5}],
+    [Sound.SPLASH]: [{wave: "noise", from: 4000, to: 200, start: 0, length: 0.5}],
+    [Sound.SQUASH]: [
+        {wave: "square", from: 180, to: 40, start: 0, length: 0.25},
+        {wave: "noise", from: 1500, to: 100, start: 0, length: 0.2, level: 0.6}
+    ],
+    [Sound.HOME]: [523, 659, 784, 1047].map((f: number, i: number) =>
+        ({wave: "triangle", from: f, to: f, start: i * 0.08, length: 0.12} as Tone)),
+    [Sound.TIME_LOW]: [0, 0.2].map((start: number) =>
+        ({wave: "square", from: 880, to: 880, start: start, length: 0.1, level: 0.4} as Tone)),
+    [Sound.GAME_OVER]: [392, 330, 262, 196].map((f: number, i: number) =>
+        ({wave: "triangle", from: f, to: f * 0.97, start: i * 0.3, length: 0.35} as Tone))
+};
+
+// a little tune over a walking bass, as semitones from middle C; null rests
+const MUSIC_BEAT = 0.2; // seconds
+const MUSIC_MELODY = [7, 4, 7, 12, 11, 7, 4, null, 5, 9, 12, 9, 7, null, 4, 2,
+                      0, 4, 7, 4, 5, 9, 5, 2, 7, 11, 7, 2, 0, null, 0, null];
+const MUSIC_BASS = [-24, -17, -24, -17, -19, -12, -19, -12, -20, -13, -20, -13, -24, -17, -24, -17];
+
+function musicTones(): Tone[] {
+    let note = (semitones: number) => 261.63 * Math.pow(2, semitones / 12);
+    let tones: Tone[] = [];
+
+    MUSIC_MELODY.forEach((semitones: number, i: number) => {
+        if(semitones !== null)
+            tones.push({wave: "square", from: note(semitones), to: note(semitones), start: i * MUSIC_BEAT,
+                length: MUSIC_BEAT * 0.9, level: 0.25});
+    });
+
+    MUSIC_BASS.forEach((semitones: number, i: number) =>
+        tones.push({wave: "triangle", from: note(semitones), to: note(semitones), start: i * MUSIC_BEAT * 2,
+            length: MUSIC_BEAT * 1.8, level: 0.5}));
+
+    return tones;
+}
+
+// Mixes tones into a buffer of samples, each fading out over its length
+function renderTones(tones: Tone[], length: number = 0): Float32Array {
+    for(let tone of tones)
+        length = Math.max(length, tone.start + tone.length);
+
+    let samples = new Float32Array(Math.ceil(length * SAMPLE_RATE));
+
+    for(let tone of tones) {
+        let first = Math.floor(tone.start * SAMPLE_RATE);
+        let count = Math.min(Math.floor(tone.length * SAMPLE_RATE), samples.length - first);
+        let level = (tone.level === undefined) ? 1 : tone.level;
+        let phase = 0;
+        let filtered = 0;
+
+        for(let i = 0; i < count; i++) {
+            let t = i / count;
+            let frequency = tone.from * Math.pow(tone.to / tone.from, t);
+            let value: number;
+
+            if(tone.wave === "noise") {
+                filtered += (1 - Math.exp(-2 * Math.PI * frequency / SAMPLE_RATE)) * (Math.random() * 2 - 1 - filtered);
+                value = filtered;
+            } else {
+                phase = (phase + frequency / SAMPLE_RATE) % 1;
+                value = (tone.wave === "square") ? (phase < 0.5 ? 1 : -1) : 1 - 4 * Math.abs(phase - 0.5);
+            }
+
+            samples[first + i] += value * level * (1 - t) * 0.3;
+        }
+    }
+
+    return samples;
+}
+
+class WebAudioBackend implements AudioBackend {
+    settings: AudioSettings;
+    private context: AudioContext;
+    private master: GainNode;
+    private musicGain: GainNode;
+    private buffers: {[sound: number]: AudioBuffer} = {};
+    private music: AudioBuffer;
+    private musicSource: AudioBufferSourceNode = null;
+
+    play(sound: Sound) {
+        let source = this.context.createBufferSource();
+        source.buffer = this.buffers[sound];
+        source.connect(this.master);
+        source.start();
+    }
+
+    startMusic() {
+        this.stopMusic();
+
+        this.musicSource = this.context.createBufferSource();
+        this.musicSource.buffer = this.music;
+        this.musicSource.loop = true;
+        this.musicSource.connect(this.musicGain);
+        this.musicSource.start();
+    }
+
+    stopMusic() {
+        if(this.musicSource) {
+            this.musicSource.stop();
+            this.musicSource = null;
+        }
+    }
+
+    applySettings() {
+        this.master.gain.value = this.settings.muted ? 0 : this.settings.volume;
+        this.musicGain.gain.value = this.settings.music;
+    }
+
+    // browsers keep audio suspended until the player does something on the page
+    resume() {
+        if(this.context.state === "suspended")
+            this.context.resume();
+    }
+
+    private buffer(samples: Float32Array): AudioBuffer {
+        let buffer = this.context.createBuffer(1, samples.length, SAMPLE_RATE);
+        buffer.getChannelData(0).set(samples);
+
+        return buffer;
+    }
+
+    constructor(settings: AudioSettings) {
+        this.settings = settings;
+        this.context = new AudioContext();
+
+        this.master = this.context.createGain();
+        this.master.connect(this.context.destination);
+        this.musicGain = this.context.createGain();
+        this.musicGain.connect(this.master);
+        this.applySettings();
+
+        for(let sound in SOUND_TONES)
+            this.buffers[sound] = this.buffer(renderTones(SOUND_TONES[sound]));
+
+        this.music = this.buffer(renderTones(musicTones(), MUSIC_MELODY.length * MUSIC_BEAT));
+    }
+}
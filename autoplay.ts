@@ -0,0 +1,59 @@
+///<reference path="headless.ts"/>
+///<reference path="bot.ts"/>
+// Has the bot play a level headlessly over many seeds to measure how hard it is: how often a frog gets
+// home, how long that takes, and what kills it when it doesn't:
+//   tsc --outFile autoplay.js autoplay.ts && node autoplay.js [level file] [seeds] [minutes per game]
+
+function autoplay(args: string[]) {
+    let level = readLevel(args[0] || "levels/classic.json");
+    let seeds = parseInt(args[1]) || 10;
+    let minutes = parseFloat(args[2]) || 2;
+
+    let homes = 0;
+    let timeHome = 0;
+    let deaths: {[cause: number]: number} = {};
+    let levelsCleared = 0;
+    let bestScore = 0;
+    let start = Date.now();
+
+    for(let seed = 1; seed <= seeds; seed++) {
+        let world = createHeadlessWorld(level, seed);
+        let frog = findFrog(world);
+        let bot = new FrogBot(frog);
+        let over = false;
+        let lifeStart = 0; // frame
+
+        world.on(GameEvent.HOME, () => {
+            homes++;
+            timeHome += (world.frame - lifeStart) * world.timestep;
+            lifeStart = world.frame;
+        });
+        world.on(GameEvent.DIED, (frog: Entity, cause: DeathCause) => {
+            deaths[cause] = (deaths[cause] || 0) + 1;
+            lifeStart = world.frame;
+        });
+        world.on(GameEvent.GAME_OVER, () => over = true);
+
+        for(let frame = minutes * 60 * world.tickRate; frame > 0 && !over; frame--)
+            world.tick(bot.inputs());
+
+        levelsCleared += world.properties.level - 1;
+        bestScore = Math.max(bestScore, frog.get(Score).points);
+    }
+
+    let died = 0;
+    for(let cause in deaths)
+        died += deaths[cause];
+
+    let attempts = homes + died;
+    let percent = (n: number) => (attempts ? Math.round(n / attempts * 100) : 0) + "%";
+
+    console.log(level.name + ": " + seeds + " seeds, up to " + minutes + " minutes each, in " + (Date.now() - start) + "ms");
+    console.log("  lives: " + attempts + ", got home: " + homes + " (" + percent(homes) + "), average time home: " +
+        (homes ? (timeHome / homes).toFixed(1) : "-") + "s");
+    console.log("  deaths: " + [DeathCause.SQUASHED, DeathCause.DROWNED, DeathCause.TIME_UP].map((cause: DeathCause) =>
+        DeathCause[cause].toLowerCase().replace("_", " ") + " " + (deaths[cause] || 0) + " (" + percent(deaths[cause] || 0) + ")").join(", "));
+    console.log("  levels cleared: " + levelsCleared + ", best score: " + bestScore);
+}
+
+autoplay(process.argv.slice(2));
@@ -0,0 +1,98 @@
+///<reference path="headless.ts"/>
+///<reference path="bot.ts"/>
+// Compares the grid broadphase against an all-pairs loop on identical seeded runs with the bot crossing
+// the road and river, reporting bounds checks and time per frame and any difference in the collision events:
+//   tsc --outFile benchmark.js benchmark.ts && node benchmark.js [level file] [frames] [seed]
+
+// The loop the grid replaced: every pair of solid entities is bounds checked
+class AllPairsCollisionHandler extends CollisionHandler {
+    protected findPairs(entities: Entity[], visit: (e1: Entity, e2: Entity) => void) {
+        for(let i = 0; i < entities.length; i++)
+            for(let j = i + 1; j < entities.length; j++)
+                visit(entities[i], entities[j]);
+    }
+}
+
+interface BenchmarkRun {
+    world: World;
+    events: string[]; // "<event> <subject id>><object id>" for the current frame, between every solid entity
+    checks: number;
+    time: number;       // milliseconds spent in collision handling
+}
+
+function benchmarkRun(level: LevelDescription, seed: number, handler: CollisionHandler): BenchmarkRun {
+    let world = new World(new NullPresentation(), seed);
+    world.collisionHandler = handler;
+    handler.recording = true;
+    loadLevel(world, level);
+
+    // keeps the frog in play for the whole run
+    world.scripts.gameOver = (self: World) => {
+        let frog = findFrog(self);
+
+        frog.get(Lives).count = 3;
+        self.scripts.respawnFrog(frog);
+    };
+
+    return {world: world, events: [], checks: 0, time: 0};
+}
+
+function benchmark(args: string[]) {
+    let level = readLevel(args[0] || "levels/classic.json");
+    let frames = parseInt(args[1]) || 3000;
+    let seed = parseInt(args[2]) || 1;
+
+    let grid = benchmarkRun(level, seed, new CollisionHandler());
+    let allPairs = benchmarkRun(level, seed, new AllPairsCollisionHandler());
+    let mismatches = 0;
+    let events = 0;
+
+    // the bot plays the grid run; the all-pairs run gets the same inputs, so stays the same unless their events differ
+    let bot = new FrogBot(findFrog(grid.world));
+
+    for(let frame = 0; frame < frames; frame++) {
+        let inputs = bot.inputs();
+
+        for(let run of [grid, allPairs]) {
+            for(let e of run.world.entities)
+                e.savePosition();
+
+            run.world.step(inputs);
+
+            let start = process.hrtime();
+            run.world.handleCollisions();
+            let elapsed = process.hrtime(start);
+
+            run.events = run.world.collisionHandler.reported.map((report: CollisionReport) =>
+                report.event + " " + report.subject.id + ">" + report.object.id);
+
+            run.time += elapsed[0] * 1000 + elapsed[1] / 1e6;
+            run.checks += run.world.collisionHandler.checks;
+            run.world.frame++;
+        }
+
+        events += grid.events.length;
+
+        if(grid.events.join() !== allPairs.events.join()) {
+            if(mismatches++ < 10)
+                console.log("frame " + frame + ": grid [" + grid.events.join(", ") + "], all pairs [" +
+                    allPairs.events.join(", ") + "]");
+        }
+    }
+
+    for(let [name, run] of [["grid", grid], ["all pairs", allPairs]] as [string, BenchmarkRun][])
+        console.log(name + ": " + (run.checks / frames).toFixed(1) + " checks/frame, " +
+            (run.time / frames).toFixed(3) + " ms/frame");
+
+    if(mismatches)
+        console.log(mismatches + " frames with different collision events");
+    else if(!events)
+        console.log("no collision events in " + frames + " frames, so nothing was compared");
+    else
+        console.log(events + " collision events identical over " + frames + " frames");
+
+    if(mismatches || !events)
+        process.exit(1);
+}
+
+benchmark(process.argv.slice(2));
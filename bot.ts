@@ -0,0 +1,343 @@
+///<reference path="game.ts"/>
+// BOT
+//
+// Plays a frog by pressing the same moves a player would. Whenever the frog is free to move, the bot
+// predicts where everything on the board will be from its velocity, searches ticks ahead for hops and waits
+// that reach a free home bay without touching a hazard or falling in the river, and takes the first step.
+// New traffic spawning in isn't predicted; planning again at every step makes up for it.
+
+const BOT_WAIT = 4;          // ticks waited when the bot doesn't hop
+const BOT_HORIZON = 8;       // seconds ahead the bot plans
+const BOT_MARGIN = 0.15;     // tiles kept clear of hazards and of platform ends
+const BOT_HOP_SAMPLES = 5;   // points along a hop checked against hazards
+const BOT_BUDGET = 1500;     // steps the bot looks at before settling for getting as far up as it can
+
+// Something moving along a row, and where touching it is deadly, relative to its left edge
+interface BotSpan {
+    x: number;        // left edge now
+    width: number;
+    velocity: number; // tiles per tick
+    deadly: Bounds;   // null for nowhere; only the frog's center counts for a part, the whole frog for all of it
+    whole: boolean;   // deadly all over
+    afloat: (tick: number) => boolean; // platforms; whether it can still be stood on this many ticks from now
+}
+
+interface BotNode {
+    tick: number;  // ticks from now, at the start of which the frog is here
+    x: number;
+    y: number;
+    parent: BotNode;
+    move: number;  // index into MOVE_DIRECTIONS of the hop that led here, -1 for a wait
+}
+
+const BOT_STEPS: {[move: number]: {x: number, y: number}} = {0: {x: 0, y: 1}, 1: {x: -1, y: 0}, 2: {x: 0, y: -1}, 3: {x: 1, y: 0}};
+
+// What the bot expects of the board, as it was when the plan began
+class BotPrediction {
+    width: number;
+    height: number;
+    deadly: BotSpan[][] = [];    // by row, hazards and platforms with deadly parts
+    platforms: BotSpan[][] = [];
+    water: boolean[][] = [];     // by row, then column; the edge columns go on past the board
+    bays: boolean[] = [];        // columns of the home row the frog can get into
+
+    // whether nothing on row y can ever hurt a frog standing there
+    safe(y: number): boolean {
+        return !this.deadly[y].length && !this.platforms[y].length && this.water[y].every((water: boolean) => !water);
+    }
+
+    // whether the frog can stand at x on row y this many ticks from now
+    standable(x: number, y: number, tick: number): boolean {
+        let center = x + 0.5;
+        if(center < 0 || center > this.width || this.hit(x, y, y, tick))
+            return false;
+
+        let platform = this.riding(x, y, tick);
+
+        if(!platform)
+            return !this.overWater(x, y);
+
+        let left = platform.x + platform.velocity * tick;
+
+        return platform.afloat(tick) && x + 1 - left >= BOT_MARGIN * 2 && left + platform.width - x >= BOT_MARGIN * 2;
+    }
+
+    // whether a frog at x, between row y1 and y2, touches anything deadly this many ticks from now
+    hit(x: number, y1: number, y2: number, tick: number): boolean {
+        for(let y = Math.min(y1, y2); y <= Math.max(y1, y2); y++)
+            for(let span of this.deadly[y]) {
+                let left = span.x + span.velocity * tick;
+                let from = left + span.deadly.x1 - BOT_MARGIN;
+                let to = left + span.deadly.x2 + BOT_MARGIN;
+
+                if(span.whole ? (x < to && x + 1 > from) : (x + 0.5 > from && x + 0.5 < to))
+                    return true;
+            }
+
+        return false;
+    }
+
+    // the platform under a frog at x, as ridingPlatform would pick it
+    riding(x: number, y: number, tick: number): BotSpan {
+        let best: BotSpan = null;
+        let bestOverlap = 0;
+
+        for(let platform of this.platforms[y] || []) {
+            let left = platform.x + platform.velocity * tick;
+            let overlap = Math.min(x + 1, left + platform.width) - Math.max(x, left);
+
+            if(overlap > bestOverlap) {
+                best = platform;
+                bestOverlap = overlap;
+            }
+        }
+
+        return best;
+    }
+
+    drift(x: number, y: number, tick: number): number {
+        let platform = this.riding(x, y, tick);
+
+        return platform ? platform.velocity : 0;
+    }
+
+    private overWater(x: number, y: number): boolean {
+        let row = this.water[y];
+
+        for(let column = Math.floor(x); column < x + 1; column++)
+            if(row[Math.max(-1, Math.min(this.width, column)) + 1])
+                return true;
+
+        return false;
+    }
+
+    private span(e: Entity, velocity: number): BotSpan {
+        let part = e.get(DeadlyPart);
+
+        return {x: e.position.x, width: e.width, velocity: velocity * e.world.timestep,
+            deadly: part ? new Bounds(part.x, 0, part.x + part.width, 1) : null, whole: false, afloat: () => true};
+    }
+
+    constructor(world: World) {
+        let description: LevelDescription = world.properties.description;
+        this.width = description.board.width;
+        this.height = description.board.height;
+
+        for(let y = 0; y < this.height; y++) {
+            let tiles = terrainTiles(description.terrain[y], this.width);
+
+            this.deadly.push([]);
+            this.platforms.push([]);
+            this.water.push([tiles[0]].concat(tiles, [tiles[this.width - 1]]).map((tile: TerrainKind) => tile === "water"));
+        }
+
+        for(let e of world.entities) {
+            if(!e.enabled || !e.solid || e.markedForDeletion)
+                continue;
+
+            let y = Math.round(e.position.y);
+            let velocity = e.get(Velocity);
+
+            switch(e.collisionLayer) {
+                case CollisionLayer.HAZARD:
+                    // a snake on a log may end up anywhere along it
+                    let carrier = e.has(Passenger) ? e.get(Passenger).carrier : e;
+                    let hazard = this.span(carrier, carrier.has(Velocity) ? carrier.get(Velocity).x : 0);
+
+                    if(carrier !== e || !hazard.deadly) {
+                        hazard.deadly = new Bounds(0, 0, carrier.width, 1);
+                        hazard.whole = true;
+                    }
+
+                    if(this.deadly[y])
+                        this.deadly[y].push(hazard);
+
+                    break;
+                case CollisionLayer.PLATFORM:
+                    let platform = this.span(e, velocity ? velocity.x : 0);
+                    let diver = e.get(Diver);
+
+                    if(diver)
+                        platform.afloat = diverAfloat(diver, e, world.timestep);
+
+                    if(!this.platforms[y])
+                        break;
+
+                    this.platforms[y].push(platform);
+                    if(platform.deadly)
+                        this.deadly[y].push(platform);
+            }
+        }
+
+        let top = this.height - 1;
+        for(let bay of world.query(HomeBay)) {
+            let home = bay.get(HomeBay);
+            let visitor = home.visitor && home.visitor.get(BayVisitor);
+
+            if(Math.round(bay.position.y) == top && !home.filled && !(visitor && visitor.kind === VisitorKind.CROCODILE))
+                this.bays[Math.round(bay.position.x)] = true;
+        }
+    }
+}
+
+// When a diving turtle can be stood on: only while it floats at the surface, not as it sinks, lies under or rises
+function diverAfloat(diver: Diver, e: Entity, timestep: number): (tick: number) => boolean {
+    let period = diver.sinkPeriod;
+    let speed = diver.speed;
+
+    if(speed <= 0)
+        return () => true;
+
+    let dive = 1.01 / speed; // seconds to go down or come up
+    let cycle = 2 * (period + dive);
+    let phase: number;
+
+    if(diver.state === DiveState.FLOATING)
+        phase = (diver.timeToSink > 0) ? period - diver.timeToSink : period + (-1 - e.position.z) / speed;
+    else
+        phase = (diver.timeToSink > 0) ? 2 * period + dive - diver.timeToSink : 2 * period + dive + (e.position.z + 2.01) / speed;
+
+    return (tick: number) => (((phase + tick * timestep) % cycle) + cycle) % cycle < period - timestep;
+}
+
+class FrogBot {
+    frog: Entity;
+    private waiting: number = 0; // ticks left of a wait
+    private pressed: boolean = false;
+
+    // the inputs a player would hold for the world's next tick
+    inputs(): InputState {
+        let frog = this.frog;
+
+        if(this.pressed || !frog.enabled || frog.get(Hopper).hopping()) {
+            this.pressed = false;
+            this.waiting = 0;
+            return {};
+        }
+
+        if(this.waiting > 0) {
+            this.waiting--;
+            return {};
+        }
+
+        let move = this.plan();
+        if(move < 0) {
+            this.waiting = BOT_WAIT - 1;
+            return {};
+        }
+
+        this.pressed = true;
+        return {[frog.get(Player).moves[move]]: true};
+    }
+
+    // The first step towards the earliest arrival home: the index of a move, or -1 to wait. With no way
+    // home found in time, the one towards the furthest up the board it can get without being stuck there.
+    plan(): number {
+        let world = this.frog.world;
+        let prediction = new BotPrediction(world);
+        let horizon = Math.round(BOT_HORIZON / world.timestep);
+        let hopTicks = Math.ceil(this.frog.get(Hopper).jumpTime / world.timestep - 1e-9);
+        let buckets: BotNode[][] = [];
+        let seen: {[key: number]: boolean} = {};
+        let visited = 0;
+        let best: BotNode = {tick: 0, x: this.frog.position.x, y: Math.round(this.frog.position.y), parent: null, move: -1};
+
+        // searched soonest home first, guessing a hop a row for the rest of the way. On a row where the frog can
+        // wait for ever, getting somewhere later is no better than getting there sooner and waiting.
+        let visit = (node: BotNode) => {
+            let tick = prediction.safe(node.y) ? -1 : node.tick;
+            let key = ((tick + 1) * prediction.height + node.y) * 1024 + Math.round((node.x + 1) * 8);
+            let soonest = node.tick + (prediction.height - 1 - node.y) * (hopTicks + 1);
+
+            if(!seen[key] && node.tick <= horizon) {
+                seen[key] = true;
+                visited++;
+                (buckets[soonest] || (buckets[soonest] = [])).push(node);
+            }
+        };
+
+        visit(best);
+
+        // the latest of equally promising nodes first, so a run of hops up the board is followed straight through
+        for(let i = 0; i < buckets.length && visited < BOT_BUDGET; i++)
+            for(let bucket = buckets[i] || []; bucket.length && visited < BOT_BUDGET;) {
+                let node = bucket.pop();
+                let before = visited;
+
+                let home = this.expand(prediction, node, hopTicks, visit);
+                if(home)
+                    return this.firstMove(home);
+
+                if(visited > before && (node.y > best.y || (node.y == best.y && node.tick > best.tick)))
+                    best = node;
+            }
+
+        return this.firstMove(best);
+    }
+
+    // visits where the frog can be after each step from node, or returns a step into a free bay
+    private expand(prediction: BotPrediction, node: BotNode, hopTicks: number, visit: (node: BotNode) => void): BotNode {
+        let x = node.x;
+
+        // waiting, carried along by whatever it stands on
+        let safe = true;
+        for(let i = 1; i <= BOT_WAIT && safe; i++) {
+            x += prediction.drift(x, node.y, node.tick + i - 1);
+            safe = prediction.standable(x, node.y, node.tick + i);
+        }
+
+        if(safe)
+            visit({tick: node.tick + BOT_WAIT, x: x, y: node.y, parent: node, move: -1});
+
+        // the hop sets off from the nearest square after this tick's ride, and lands on the next one
+        for(let move = 0; move < MOVE_DIRECTIONS.length; move++) {
+            let start = node.x + prediction.drift(node.x, node.y, node.tick);
+            let step = BOT_STEPS[move];
+            let tx = Math.round(start) + step.x;
+            let ty = node.y + step.y;
+
+            if(tx < 0 || tx >= prediction.width || ty < 0 || ty >= prediction.height)
+                continue;
+
+            let clear = !prediction.hit(start, node.y, node.y, node.tick);
+            for(let i = 1; i <= BOT_HOP_SAMPLES && clear; i++) {
+                let t = i / BOT_HOP_SAMPLES;
+                let tick = node.tick + Math.round(hopTicks * t);
+
+                clear = !prediction.hit(start + (tx - start) * t, node.y, ty, tick);
+            }
+
+            if(!clear)
+                continue;
+
+            let landed = node.tick + hopTicks;
+            let next: BotNode = {tick: landed + 1, x: tx, y: ty, parent: node, move: move};
+
+            if(ty == prediction.height - 1) {
+                if(prediction.bays[tx])
+                    return next;
+
+                continue;
+            }
+
+            if(prediction.standable(tx, ty, landed) && prediction.standable(tx, ty, landed + 1))
+                visit(next);
+        }
+
+        return null;
+    }
+
+    private firstMove(node: BotNode): number {
+        if(!node.parent)
+            return -1;
+
+        while(node.parent.parent)
+            node = node.parent;
+
+        return node.move;
+    }
+
+    constructor(frog: Entity) {
+        this.frog = frog;
+    }
+}
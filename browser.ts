@@ -0,0 +1,941 @@
+///<reference path="three.d.ts"/>
+///<reference path="game.ts"/>
+///<reference path="replay.ts"/>
+///<reference path="net.ts"/>
+///<reference path="models.ts"/>
+///<reference path="camera.ts"/>
+///<reference path="audio.ts"/>
+///<reference path="editor.ts"/>
+///<reference path="inspector.ts"/>
+// BROWSER
+
+import WebGLRenderer = THREE.WebGLRenderer;
+import PerspectiveCamera = THREE.PerspectiveCamera;
+import Scene = THREE.Scene;
+import Object3D = THREE.Object3D;
+
+class ThreeDrawable extends Drawable {
+    model: Object3D = null;
+    key: string;
+    animate: ModelAnimator = null;
+    presentation: ThreePresentation;
+
+    draw(alpha: number) {
+        let position = this.entity.interpolatedPosition(alpha);
+
+        this.model.position.x = position.x + this.entity.width / 2;
+        this.model.position.y = position.y + this.entity.height / 2;
+        this.model.position.z = position.z;
+
+        if(this.animate)
+            this.animate(this.model, this.entity, alpha);
+    }
+
+    // the model goes back to the presentation for the next entity that looks the same
+    destroy() {
+        if(this.model) {
+            this.presentation.release(this.model, this.key);
+            this.model = null;
+        }
+    }
+
+    constructor(parent: Entity, presentation: ThreePresentation, model: Object3D, key: string, animate: ModelAnimator = null) {
+        super(parent);
+
+        this.presentation = presentation;
+        this.model = model;
+        this.key = key;
+        this.animate = animate;
+    }
+}
+
+class DomTextDrawable extends TextDrawable {
+    private div: HTMLElement;
+
+    draw() {
+        this.div.innerHTML = this.text;
+        this.div.style.left = this.position.x + "px";
+        this.div.style.top = this.position.y + "px";
+        this.div.style.color = this.color;
+    }
+
+    destroy() {
+        this.div.parentNode.removeChild(this.div);
+    }
+
+    constructor(hud: HTMLElement, position: {x: number, y: number}, text: string, color: string) {
+        super(position, text, color);
+
+        this.div = document.createElement("div");
+        this.div.style.position = "absolute";
+        this.div.style.whiteSpace = "nowrap";
+        hud.appendChild(this.div);
+    }
+}
+
+class DomBarDrawable extends BarDrawable {
+    private div: HTMLElement;
+    private fill: HTMLElement;
+
+    draw() {
+        this.div.style.left = this.position.x + "px";
+        this.div.style.top = this.position.y + "px";
+        this.div.style.width = this.width + "px";
+        this.fill.style.width = (Math.max(0, Math.min(this.fraction, 1)) * 100) + "%";
+        this.fill.style.background = this.color;
+    }
+
+    destroy() {
+        this.div.parentNode.removeChild(this.div);
+    }
+
+    constructor(hud: HTMLElement, position: {x: number, y: number}, width: number, color: string) {
+        super(position, width, color);
+
+        this.div = document.createElement("div");
+        this.div.style.position = "absolute";
+        this.div.style.height = "8px";
+        this.div.style.border = "1px solid " + color;
+
+        this.fill = document.createElement("div");
+        this.fill.style.height = "100%";
+        this.div.appendChild(this.fill);
+
+        hud.appendChild(this.div);
+    }
+}
+
+class LocalStorageHighScoreStore implements HighScoreStore {
+    key: string;
+
+    load(): HighScore[] {
+        try {
+            return JSON.parse(localStorage.getItem(this.key)) || [];
+        } catch(e) {
+            return [];
+        }
+    }
+
+    save(scores: HighScore[]) {
+        localStorage.setItem(this.key, JSON.stringify(scores));
+    }
+
+    constructor(key: string) {
+        this.key = key;
+    }
+}
+
+class ThreePresentation implements Presentation {
+    renderer: WebGLRenderer;
+    scene: Scene;
+    rig: CameraRig;
+    models: ModelRegistry;
+    hud: HTMLElement;
+    live: number = 0;
+    private pool: {[key: string]: Object3D[]} = {};
+
+    createDrawable(parent: Entity, spec: ModelSpec): Drawable {
+        let key = this.models.key(spec, parent.width, parent.height);
+        let pooled = this.pool[key];
+        let model: Object3D;
+
+        if(pooled && pooled.length) {
+            model = pooled.pop();
+            model.rotation.set(0, 0, 0);
+            model.scale.copy(model.userData.baseScale);
+        } else {
+            model = this.models.create(spec, parent.width, parent.height);
+        }
+
+        this.scene.add(model);
+        this.live++;
+
+        return new ThreeDrawable(parent, this, model, key, this.models.animator(spec));
+    }
+
+    release(model: Object3D, key: string) {
+        this.scene.remove(model);
+        this.live--;
+
+        (this.pool[key] || (this.pool[key] = [])).push(model);
+    }
+
+    pooled(): number {
+        let count = 0;
+        for(let key in this.pool)
+            count += this.pool[key].length;
+
+        return count;
+    }
+
+    createText(position: {x: number, y: number}, text: string, color: string): TextDrawable {
+        return new DomTextDrawable(this.hud, position, text, color);
+    }
+
+    createBar(position: {x: number, y: number}, width: number, color: string): BarDrawable {
+        return new DomBarDrawable(this.hud, position, width, color);
+    }
+
+    render() {
+        this.renderer.render(this.scene, this.rig.camera);
+    }
+
+    dispose() {
+        for(let key in this.pool)
+            for(let model of this.pool[key])
+                disposeModel(model);
+
+        this.pool = {};
+        this.models.dispose();
+    }
+
+    constructor(renderer: WebGLRenderer, scene: Scene, rig: CameraRig, models: ModelRegistry, hud: HTMLElement) {
+        this.renderer = renderer;
+        this.scene = scene;
+        this.rig = rig;
+        this.models = models;
+        this.hud = hud;
+    }
+}
+
+// Hands the rig the frogs to follow each frame, so the camera moves as smoothly as the models do
+class CameraDrawable extends Drawable {
+    rig: CameraRig;
+    follow: Entity[];
+
+    draw(alpha: number) {
+        this.rig.update(this.follow, this.entity.world.properties.board, alpha);
+    }
+
+    constructor(parent: Entity, rig: CameraRig, follow: Entity[]) {
+        super(parent);
+
+        this.rig = rig;
+        this.follow = follow;
+    }
+}
+
+function buildCameraView(world: World, rig: CameraRig, follow: Entity[]): Entity {
+    let view = new Entity("camera view", world, 0, 0, {x: 0, y: 0, z: 0});
+    view.solid = false;
+
+    view.add(new CameraDrawable(view, rig, follow));
+
+    return view;
+}
+
+// the camera frames the board for this shape, and the HUD is laid out for a canvas this size and scaled to fit the real one
+const WIDTH = 640;
+const HEIGHT = 480;
+
+const FOV_ANGLE = 45;
+
+const LEVEL_FILE = "levels/classic.json"; // unless ?level= names another
+const MODEL_MANIFEST = "models/models.json";
+const TICK_RATE = 60;
+
+const FREEZE_KEY = 117;      // F6, stops the fixed-step loop for frame-by-frame debugging
+const STEP_KEY = 118;        // F7
+const SAVE_REPLAY_KEY = 119; // F8
+const REMAP_KEY = 120;       // F9, asks for a new key for each action in turn
+const CAMERA_KEY = 113;      // F2, switches to the next camera mode
+const STATS_KEY = 115;       // F4, shows how many entities and models are live and pooled
+const DEBUG_KEY = 121;       // F10, draws bounds and collisions and shows the frogs' state
+const CONSOLE_KEY = 192;     // backquote
+const MUTE_KEY = 114;        // F3
+const VOLUME_UP_KEY = 33;    // page up
+const VOLUME_DOWN_KEY = 34;  // page down
+const VOLUME_STEP = 0.1;
+
+const KEY_BINDINGS_KEY = "frogger.keyBindings";
+const AUDIO_SETTINGS_KEY = "frogger.audio";
+const SWIPE_DISTANCE = 30;   // pixels; shorter touches are taps
+const STICK_THRESHOLD = 0.5;
+
+// standard gamepad mapping: d-pad and start; the second pad moves player two
+const GAMEPAD_BUTTONS: {[button: number]: Action} = {
+    12: Action.MOVE_UP,
+    13: Action.MOVE_DOWN,
+    14: Action.MOVE_LEFT,
+    15: Action.MOVE_RIGHT,
+    9: Action.PAUSE
+};
+
+const HIGH_SCORE_KEY = "frogger.highScores";
+const MAX_NAME_LENGTH = 10;
+const NOTICE_TIME = 1.5; // seconds a notice, such as the new camera mode, stays in the overlay
+const ERROR_NOTICE_TIME = 5;
+
+let renderer: WebGLRenderer;
+let rig: CameraRig;
+let scene: Scene;
+let container: HTMLElement;
+let hud: HTMLElement;
+let models: ModelRegistry;
+let audio: WebAudioBackend;
+
+let world: World;
+let flow: GameFlow;
+let recorder: ReplayRecorder = null;
+let player: ReplayPlayer = null;
+let versus: NetClient = null;
+let versusStatus: string = ""; // how the connection to the relay is doing, shown under the game's own status
+let loop: FixedStepLoop;
+let lastFrameTime: number = null;
+let highScores: HighScoreTable;
+let highScorePanel: HTMLElement = null;
+let overlay: HTMLElement;
+let stats: HTMLElement;
+let debugOverlay: DebugOverlay;
+let consoleView: ConsoleView;
+let devConsole: DevConsole = null;
+let controls: Controls;
+let keyBindings: KeyBindings;
+let gamepads: GamepadSource;
+let remapping: number = -1; // index into ACTIONS of the action waiting for a key
+let notice: string = "";
+let noticeTime: number = 0;  // seconds left to show it
+
+// Polled every frame, as the Gamepad API has no events for buttons
+class GamepadSource {
+    private held: InputState = [];
+
+    poll(controls: Controls) {
+        let pads = navigator.getGamepads ? navigator.getGamepads() : [];
+        let held: InputState = [];
+
+        for(let i = 0; i < pads.length; i++) {
+            let pad = pads[i];
+            if(!pad)
+                continue;
+
+            for(let button in GAMEPAD_BUTTONS)
+                if(pad.buttons[+button] && pad.buttons[+button].pressed)
+                    held[forPlayer(GAMEPAD_BUTTONS[button], i)] = true;
+
+            if(pad.axes.length >= 2) {
+                if(pad.axes[0] < -STICK_THRESHOLD)
+                    held[forPlayer(Action.MOVE_LEFT, i)] = true;
+                if(pad.axes[0] > STICK_THRESHOLD)
+                    held[forPlayer(Action.MOVE_RIGHT, i)] = true;
+                if(pad.axes[1] < -STICK_THRESHOLD)
+                    held[forPlayer(Action.MOVE_UP, i)] = true;
+                if(pad.axes[1] > STICK_THRESHOLD)
+                    held[forPlayer(Action.MOVE_DOWN, i)] = true;
+            }
+        }
+
+        for(let action of ACTIONS) {
+            if(held[action] && !this.held[action])
+                controls.press("gamepad", action);
+            else if(!held[action] && this.held[action])
+                controls.release("gamepad", action);
+        }
+
+        this.held = held;
+    }
+}
+
+function loadKeyBindings(): KeyBindings {
+    try {
+        let keys = JSON.parse(localStorage.getItem(KEY_BINDINGS_KEY));
+        if(keys && typeof keys === "object")
+            return new KeyBindings(keys);
+    } catch(e) {}
+
+    return new KeyBindings();
+}
+
+function saveKeyBindings() {
+    localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(keyBindings.keys));
+}
+
+function loadAudioSettings(): AudioSettings {
+    let settings: AudioSettings = {volume: DEFAULT_AUDIO_SETTINGS.volume, music: DEFAULT_AUDIO_SETTINGS.music,
+        muted: DEFAULT_AUDIO_SETTINGS.muted};
+
+    try {
+        let saved = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_KEY));
+        if(saved && typeof saved === "object") {
+            if(typeof saved.volume === "number")
+                settings.volume = Math.max(0, Math.min(1, saved.volume));
+            if(typeof saved.music === "number")
+                settings.music = Math.max(0, Math.min(1, saved.music));
+            if(typeof saved.muted === "boolean")
+                settings.muted = saved.muted;
+        }
+    } catch(e) {}
+
+    return settings;
+}
+
+function changeAudioSettings(change: (settings: AudioSettings) => void) {
+    change(audio.settings);
+    audio.settings.volume = Math.round(Math.max(0, Math.min(1, audio.settings.volume)) * 100) / 100;
+    audio.applySettings();
+
+    localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(audio.settings));
+}
+
+// swipes hop in their direction, taps hop forwards and two-finger taps pause
+function setupTouch(element: HTMLElement) {
+    let start: {x: number, y: number} = null;
+
+    element.addEventListener("touchstart", (event: TouchEvent) => {
+        event.preventDefault();
+
+        if(event.touches.length == 2) {
+            start = null;
+            controls.pulse("touch", Action.PAUSE);
+        } else if(event.touches.length == 1) {
+            start = {x: event.touches[0].clientX, y: event.touches[0].clientY};
+        }
+    });
+
+    element.addEventListener("touchend", (event: TouchEvent) => {
+        event.preventDefault();
+
+        if(!start)
+            return;
+
+        let dx = event.changedTouches[0].clientX - start.x;
+        let dy = event.changedTouches[0].clientY - start.y;
+        start = null;
+
+        if(Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_DISTANCE)
+            controls.pulse("touch", Action.MOVE_UP);
+        else if(Math.abs(dx) > Math.abs(dy))
+            controls.pulse("touch", (dx < 0) ? Action.MOVE_LEFT : Action.MOVE_RIGHT);
+        else
+            controls.pulse("touch", (dy < 0) ? Action.MOVE_UP : Action.MOVE_DOWN);
+    });
+}
+
+function saveReplay() {
+    let replay = recorder.save();
+
+    let link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(replay)], {type: "application/json"}));
+    link.download = "frogger-replay-" + replay.seed + ".json";
+    link.click();
+}
+
+// Calls back with the replay, or onError with why it couldn't be fetched or read
+function loadReplayFile(url: string, callback: (replay: ReplayFile) => void, onError: (error: Error) => void) {
+    let request = new XMLHttpRequest();
+
+    request.onload = () => {
+        let replay: ReplayFile;
+
+        try {
+            if(request.status >= 400)
+                throw new Error(url + ": " + request.status + " " + request.statusText);
+
+            replay = JSON.parse(request.responseText);
+        } catch(e) {
+            onError(new Error(url + ": " + e.message));
+            return;
+        }
+
+        callback(replay);
+    };
+    request.onerror = () => onError(new Error(url + ": couldn't be loaded"));
+
+    request.open("GET", url);
+    request.send();
+}
+
+// Lists the table, with a name field in place of the new entry if score makes it
+function showHighScores(score: number, level: number): HTMLElement {
+    let panel = document.createElement("div");
+    panel.style.position = "absolute";
+    panel.style.left = "200px";
+    panel.style.top = "80px";
+    panel.style.color = "#FFFFFF";
+    panel.style.background = "rgba(0, 0, 0, 0.8)";
+    panel.style.padding = "10px";
+    panel.style.pointerEvents = "auto";
+    hud.appendChild(panel);
+
+    let render = (input?: HTMLInputElement) => {
+        let list = document.createElement("ol");
+        let entries: HighScore[] = highScores.entries.slice();
+        let rank = -1;
+
+        if(input) {
+            rank = 0;
+            while(rank < entries.length && entries[rank].score >= score)
+                rank++;
+
+            entries.splice(rank, 0, null);
+        }
+
+        for(let i = 0; i < Math.min(entries.length, HIGH_SCORE_COUNT); i++) {
+            let item = document.createElement("li");
+
+            if(i == rank) {
+                item.appendChild(input);
+                item.appendChild(document.createTextNode(" " + score));
+            } else {
+                item.textContent = entries[i].name + " " + entries[i].score + " (level " + entries[i].level + ")";
+            }
+
+            list.appendChild(item);
+        }
+
+        panel.innerHTML = "<h3>GAME OVER - " + score + "</h3>";
+        panel.appendChild(list);
+    };
+
+    if(!highScores.qualifies(score)) {
+        render();
+        return panel;
+    }
+
+    let input = document.createElement("input");
+    input.maxLength = MAX_NAME_LENGTH;
+    input.placeholder = "your name";
+
+    // keys typed into the name don't reach the world
+    input.onkeydown = (event: KeyboardEvent) => {
+        event.stopPropagation();
+
+        if(event.keyCode == 13) { // enter
+            highScores.add({name: input.value.trim() || "???", score: score, level: level});
+            render();
+        }
+    };
+
+    render(input);
+    input.focus();
+
+    return panel;
+}
+
+// the table takes the better player's score
+function gameOver(self: World) {
+    let best = Math.max(...findFrogs(self).map((frog: Entity) => frog.get(Score).points));
+    highScorePanel = showHighScores(best, self.properties.level);
+}
+
+// sizes the canvas to its container, at the screen's own resolution, and scales the HUD with it
+function fit() {
+    let width = container.clientWidth || window.innerWidth;
+    let height = container.clientHeight || window.innerHeight;
+
+    renderer.setPixelRatio(window.devicePixelRatio || 1);
+    renderer.setSize(width, height);
+    rig.resize(width, height);
+
+    // the HUD covers the whole canvas, but at WIDTH x HEIGHT or bigger before scaling, so its layout still fits
+    let scale = Math.min(width / WIDTH, height / HEIGHT);
+    hud.style.width = (width / scale) + "px";
+    hud.style.height = (height / scale) + "px";
+    hud.style.transform = "scale(" + scale + ")";
+}
+
+function setup() {
+    renderer = new WebGLRenderer();
+    scene = new Scene();
+    renderer.shadowMap.enabled = true;
+
+    rig = new CameraRig(new PerspectiveCamera(FOV_ANGLE, WIDTH / HEIGHT, 0.1, 5000), renderer.domElement);
+    scene.add(rig.perspective);
+    scene.add(rig.orthographic);
+
+    // the sun is high over the bottom left of the board, so shadows fall up and to the right
+    let sun = new THREE.DirectionalLight(0xFFFFFF, 0.8);
+    sun.position.set(-4, -6, 20);
+    sun.target.position.set(8, 8, 0);
+    sun.castShadow = true;
+    let shadowCamera = sun.shadow.camera as THREE.OrthographicCamera;
+    shadowCamera.left = shadowCamera.bottom = -16;
+    shadowCamera.right = shadowCamera.top = 16;
+    sun.shadow.mapSize.set(1024, 1024);
+    scene.add(sun);
+    scene.add(sun.target);
+    scene.add(new THREE.AmbientLight(0x606060));
+
+    audio = new WebAudioBackend(loadAudioSettings());
+    window.addEventListener("keydown", () => audio.resume());
+    window.addEventListener("touchstart", () => audio.resume());
+
+    models = new ModelRegistry();
+    defineModels(models);
+    models.loadManifest(MODEL_MANIFEST, (error: Error) => showNotice(error.message, ERROR_NOTICE_TIME));
+
+    container = document.getElementById("game") || document.body;
+    container.appendChild(renderer.domElement);
+
+    // over the canvas, passing clicks and touches through to it
+    hud = document.createElement("div");
+    hud.style.position = "absolute";
+    hud.style.left = hud.style.top = "0px";
+    hud.style.transformOrigin = "0 0";
+    hud.style.pointerEvents = "none";
+    container.appendChild(hud);
+
+    fit();
+    window.addEventListener("resize", fit);
+
+    highScores = new HighScoreTable(new LocalStorageHighScoreStore(HIGH_SCORE_KEY));
+
+    overlay = document.createElement("div");
+    overlay.style.position = "absolute";
+    overlay.style.left = "0px";
+    overlay.style.top = (HEIGHT / 3) + "px";
+    overlay.style.width = "100%";
+    overlay.style.textAlign = "center";
+    overlay.style.whiteSpace = "pre-line";
+    overlay.style.color = "#FFFFFF";
+    overlay.style.fontSize = "24px";
+    hud.appendChild(overlay);
+
+    stats = document.createElement("div");
+    stats.style.position = "absolute";
+    stats.style.right = "5px";
+    stats.style.bottom = "5px";
+    stats.style.color = "#FFFF00";
+    stats.style.font = "12px monospace";
+    stats.style.display = "none";
+    hud.appendChild(stats);
+
+    debugOverlay = new DebugOverlay(scene, container);
+    consoleView = new ConsoleView(container, CONSOLE_KEY);
+    consoleView.print("type help for commands");
+
+    // a console for whichever world is running
+    consoleView.onCommand = (line: string) => {
+        if(!world)
+            return "no game running";
+
+        if(!devConsole || devConsole.world !== world)
+            devConsole = new DevConsole(world);
+
+        return devConsole.run(line);
+    };
+
+    keyBindings = loadKeyBindings();
+    gamepads = new GamepadSource();
+    controls = new Controls();
+    controls.onPress = (action: Action) => flow ? flow.press(action) : false;
+    setupTouch(renderer.domElement);
+
+    document.onkeydown = function(event) {
+        switch(event.keyCode) {
+            case SAVE_REPLAY_KEY:
+                if(recorder)
+                    saveReplay();
+
+                return false;
+            case FREEZE_KEY:
+                if(!loop)
+                    return false;
+
+                if(loop.paused)
+                    loop.resume();
+                else
+                    loop.pause();
+
+                return false;
+            case STEP_KEY:
+                if(loop)
+                    loop.stepOnce();
+
+                return false;
+            case STATS_KEY:
+                stats.style.display = (stats.style.display === "none") ? "block" : "none";
+
+                return false;
+            case DEBUG_KEY:
+                debugOverlay.toggle();
+
+                return false;
+            case CONSOLE_KEY:
+                consoleView.toggle();
+
+                return false;
+            case CAMERA_KEY:
+                rig.nextMode();
+                showNotice("camera: " + CAMERA_MODE_NAMES[rig.mode]);
+
+                return false;
+            case MUTE_KEY:
+                changeAudioSettings((settings: AudioSettings) => settings.muted = !settings.muted);
+
+                return false;
+            case VOLUME_UP_KEY:
+            case VOLUME_DOWN_KEY:
+                changeAudioSettings((settings: AudioSettings) => {
+                    settings.volume += (event.keyCode == VOLUME_UP_KEY) ? VOLUME_STEP : -VOLUME_STEP;
+                    settings.muted = false;
+                });
+
+                return false;
+            case REMAP_KEY:
+                controls.releaseAll("keyboard");
+                remapping = 0;
+
+                return false;
+        }
+
+        if(remapping >= 0) {
+            keyBindings.bind(ACTIONS[remapping++], event.keyCode);
+
+            if(remapping == ACTIONS.length) {
+                remapping = -1;
+                saveKeyBindings();
+            }
+
+            return false;
+        }
+
+        let action = keyBindings.actionFor(event.keyCode);
+        if(action === null)
+            return;
+
+        controls.press("keyboard", action);
+        return false;
+    };
+
+    document.onkeyup = function(event) {
+        let action = keyBindings.actionFor(event.keyCode);
+        if(action !== null)
+            controls.release("keyboard", action);
+    };
+
+    window.onblur = function() {
+        controls.releaseAll("keyboard");
+    };
+}
+
+// releases everything the last game put in the scene and the page
+function endGame() {
+    if(world)
+        world.destroy();
+
+    if(highScorePanel) {
+        highScorePanel.parentNode.removeChild(highScorePanel);
+        highScorePanel = null;
+    }
+}
+
+function startGame(level: LevelDescription, mode: GameMode, initial: GameState) {
+    endGame();
+
+    world = new World(new ThreePresentation(renderer, scene, rig, models, hud), Random.newSeed(), TICK_RATE);
+    loop = new FixedStepLoop(world.timestep);
+
+    loadLevel(world, level, mode);
+    connectAudio(world, audio);
+    audio.startMusic();
+    world.properties.highScore = highScores.best();
+    world.scripts.gameOver = gameOver;
+    recorder = new ReplayRecorder(world, level);
+
+    flow = new GameFlow(world, (inputs: InputState) => recorder.tick(inputs), initial);
+    flow.onRestart = (mode: GameMode) => startGame(level, mode, new PlayingState());
+    flow.onTitle = () => startGame(level, mode, new TitleState());
+
+    world.entities.push(buildCameraView(world, rig, findFrogs(world)));
+}
+
+function startReplay(replay: ReplayFile) {
+    player = new ReplayPlayer(replay, new ThreePresentation(renderer, scene, rig, models, hud));
+    world = player.world;
+    flow = player.flow;
+    connectAudio(world, audio);
+    audio.startMusic();
+    loop = new FixedStepLoop(world.timestep);
+
+    world.entities.push(buildCameraView(world, rig, findFrogs(world)));
+}
+
+// Races others through the relay at url, e.g. ?versus=ws://localhost:8080&room=lunch&name=ann
+function startVersus(url: string, room: string, name: string) {
+    let socket = new WebSocket(url);
+    versus = new NetClient((data: string) => socket.send(data));
+
+    // there is no world drawing the overlay until the relay welcomes us
+    let status = (text: string) => {
+        versusStatus = text;
+        if(!world)
+            overlay.textContent = text;
+    };
+
+    status("connecting to " + url);
+
+    socket.onopen = () => {
+        status("joining room " + JSON.stringify(room));
+        versus.join(room, name);
+    };
+    socket.onmessage = (event: MessageEvent) => versus.receive(event.data);
+    socket.onclose = () => status("disconnected from " + url);
+
+    versus.onWelcome = (welcome: WelcomeMessage) => {
+        status("");
+
+        world = new World(new ThreePresentation(renderer, scene, rig, models, hud), welcome.seed, TICK_RATE);
+        loop = new FixedStepLoop(world.timestep);
+
+        loadLevel(world, welcome.level);
+        connectAudio(world, audio);
+        audio.startMusic();
+        world.properties.highScore = highScores.best();
+        world.scripts.gameOver = gameOver;
+        recorder = new ReplayRecorder(world, welcome.level);
+        versus.attach(world);
+
+        flow = new GameFlow(world, (inputs: InputState) => {
+            recorder.tick(inputs);
+            versus.afterTick(inputs);
+        }, new WaitingState("waiting for an opponent"));
+
+        world.entities.push(buildCameraView(world, rig, findFrogs(world)));
+
+        requestAnimationFrame(worldLoop);
+    };
+
+    versus.onStart = () => flow.change(new PlayingState());
+
+    versus.onError = (message: string) => {
+        if(flow)
+            flow.change(new WaitingState(message));
+        else
+            status(message);
+    };
+}
+
+// Lays out a level, e.g. ?editor&level=levels/classic.json, playing it in a live world on request
+function startEditor(level: LevelDescription) {
+    let editor = new LevelEditor(container, level);
+
+    editor.onPlayTest = (level: LevelDescription) => startGame(level, GameMode.SINGLE, new PlayingState());
+
+    editor.onStopTest = () => {
+        endGame();
+        audio.stopMusic();
+        world = null;
+        flow = null;
+        recorder = null;
+    };
+}
+
+function showStats() {
+    let presentation = world.presentation as ThreePresentation;
+
+    stats.textContent = "entities " + world.entities.length + " live, " + world.pool.size() + " pooled (" +
+        world.pool.created + " made, " + world.pool.reused + " reused); models " + presentation.live + " live, " +
+        presentation.pooled() + " pooled";
+}
+
+function tick() {
+    if(player) {
+        if(!player.finished())
+            player.tick();
+    } else {
+        flow.tick(controls.sample());
+    }
+}
+
+function worldLoop(time: number) {
+    let elapsed = (lastFrameTime === null) ? 0 : (time - lastFrameTime) / 1000;
+    lastFrameTime = time;
+
+    // the editor has no world until it play-tests one
+    if(!world) {
+        overlay.textContent = "";
+        requestAnimationFrame(worldLoop);
+        return;
+    }
+
+    let start = performance.now();
+    let steps = 0;
+
+    gamepads.poll(controls);
+    loop.advance(elapsed, () => {
+        steps++;
+        tick();
+    });
+
+    let stepped = performance.now();
+    debugOverlay.update(world, loop.alpha);
+    world.draw(loop.alpha);
+    debugOverlay.measure(elapsed * 1000, stepped - start, steps, performance.now() - stepped);
+    if(stats.style.display !== "none")
+        showStats();
+
+    if(remapping >= 0)
+        overlay.textContent = "press a key for " + ACTION_NAMES[ACTIONS[remapping]];
+    else if(player && player.finished())
+        overlay.textContent = replayResult();
+    else
+        overlay.textContent = [flow.state.overlay(), versusStatus, (noticeTime > 0) ? notice : ""]
+            .filter((line: string) => !!line).join("\n");
+
+    noticeTime -= elapsed;
+
+    requestAnimationFrame(worldLoop);
+}
+
+// whether a finished replay played out as recorded
+function replayResult(): string {
+    let desyncs = player.desyncs;
+
+    if(!desyncs.length)
+        return "REPLAY FINISHED\nin sync";
+
+    return "REPLAY OUT OF SYNC\n" + desyncs.length + " difference" + (desyncs.length > 1 ? "s" : "") +
+        ", the first at " + desyncs[0].split(":")[0];
+}
+
+// shows text under the game's own status for a while
+function showNotice(text: string, seconds: number = NOTICE_TIME) {
+    notice = text;
+    noticeTime = seconds;
+}
+
+// The game can't start: says why where the game would have been
+function showError(error: Error) {
+    overlay.textContent = error.message;
+}
+
+function main(): void {
+    setup();
+
+    let replayUrl = /[?&]replay=([^&]+)/.exec(location.search);
+    let versusUrl = /[?&]versus=([^&]+)/.exec(location.search);
+    let levelUrl = /[?&]level=([^&]+)/.exec(location.search);
+    let levelFile = levelUrl ? decodeURIComponent(levelUrl[1]) : LEVEL_FILE;
+
+    if(versusUrl) {
+        let room = /[?&]room=([^&]+)/.exec(location.search);
+        let name = /[?&]name=([^&]+)/.exec(location.search);
+
+        startVersus(decodeURIComponent(versusUrl[1]), room ? decodeURIComponent(room[1]) : "",
+            name ? decodeURIComponent(name[1]) : "");
+    } else if(replayUrl) {
+        loadReplayFile(decodeURIComponent(replayUrl[1]), (replay: ReplayFile) => {
+            try {
+                startReplay(replay);
+            } catch(e) {
+                showError(e);
+                return;
+            }
+
+            requestAnimationFrame(worldLoop);
+        }, showError);
+    } else if(/[?&]editor(&|=|$)/.test(location.search)) {
+        loadLevelFile(levelFile, (level: LevelDescription) => {
+            startEditor(level);
+
+            requestAnimationFrame(worldLoop);
+        }, showError);
+    } else {
+        loadLevelFile(levelFile, (level: LevelDescription) => {
+            startGame(level, GameMode.SINGLE, new TitleState());
+
+            requestAnimationFrame(worldLoop);
+        }, showError);
+    }
+}
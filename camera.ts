@@ -0,0 +1,298 @@
+///<reference path="three.d.ts"/>
+///<reference path="components.ts"/>
+// CAMERA
+//
+// The views of the board the player can switch between. Every mode works out a pose each frame; the rig
+// blends from wherever the camera was to the new mode's pose when the mode changes, and shakes it when a
+// frog dies.
+
+enum CameraMode {
+    CHASE,        // behind and above the frogs, following on a spring
+    TOP_DOWN,     // the whole board from straight above, without perspective
+    FIRST_PERSON, // from the frog's eyes, looking the way it last hopped
+    ORBIT         // free, for debugging: drag to turn around the board, scroll to zoom
+}
+
+const CAMERA_MODES = [CameraMode.CHASE, CameraMode.TOP_DOWN, CameraMode.FIRST_PERSON, CameraMode.ORBIT];
+const CAMERA_MODE_NAMES = ["chase", "top down", "first person", "orbit"];
+
+const CAMERA_TRANSITION = 0.8;  // seconds to blend from one mode to the next
+const CHASE_STIFFNESS = 40;     // spring constant of the chase camera; it is critically damped
+const TOP_DOWN_MARGIN = 1;      // tiles shown beyond the board's edges
+const EYE_HEIGHT = 0.6;
+const SHAKE_TIME = 0.4;         // seconds
+const SHAKE_SIZE = 0.3;         // tiles, at the start of a shake
+const ORBIT_SPEED = 0.01;       // radians per pixel dragged
+const ORBIT_ZOOM = 0.001;       // of the distance per pixel scrolled
+
+interface CameraPose {
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+    up: THREE.Vector3;
+}
+
+function cameraPose(): CameraPose {
+    return {position: new THREE.Vector3(), target: new THREE.Vector3(), up: new THREE.Vector3(0, 0, 1)};
+}
+
+class CameraRig {
+    mode: CameraMode = CameraMode.CHASE;
+    perspective: THREE.PerspectiveCamera;
+    orthographic: THREE.OrthographicCamera;
+    private element: HTMLElement;
+    private fov: number;          // vertical, in degrees, at framedAspect or wider
+    private framedAspect: number;
+    private size: {width: number, height: number} = {width: 0, height: 0};
+    private board: {width: number, height: number} = {width: 1, height: 1};
+    private lastTime: number = null;
+
+    // the pose drawn last frame, the one a transition started from and the one the mode wants now
+    private pose: CameraPose = cameraPose();
+    private from: CameraPose = cameraPose();
+    private wanted: CameraPose = cameraPose();
+    private transition: number = 0; // seconds left
+
+    private chase: THREE.Vector3 = null;
+    private chaseVelocity: THREE.Vector3 = new THREE.Vector3();
+    private facing: Direction = Direction.UP;
+    private following: Entity[] = null;
+    private lives: number[] = [];
+    private shakeTime: number = 0;
+    private orbit = {yaw: -Math.PI / 2, pitch: 0.8, distance: 25};
+
+    // the camera to render with: the orthographic one once a switch to the top-down view has finished
+    get camera(): THREE.Camera {
+        return (this.mode === CameraMode.TOP_DOWN && this.transition <= 0) ? this.orthographic : this.perspective;
+    }
+
+    setMode(mode: CameraMode) {
+        if(mode === this.mode)
+            return;
+
+        this.mode = mode;
+        this.copy(this.pose, this.from);
+        this.transition = CAMERA_TRANSITION;
+    }
+
+    nextMode() {
+        this.setMode(CAMERA_MODES[(CAMERA_MODES.indexOf(this.mode) + 1) % CAMERA_MODES.length]);
+    }
+
+    shake() {
+        this.shakeTime = SHAKE_TIME;
+    }
+
+    // windows narrower than the one the camera was made for get a taller view, keeping as much of the board across
+    resize(width: number, height: number) {
+        let aspect = width / height;
+        let fov = this.fov;
+
+        if(aspect < this.framedAspect)
+            fov = 2 * Math.atan(Math.tan(this.fov * Math.PI / 360) * this.framedAspect / aspect) * 180 / Math.PI;
+
+        this.size.width = width;
+        this.size.height = height;
+
+        this.perspective.aspect = aspect;
+        this.perspective.fov = fov;
+        this.perspective.updateProjectionMatrix();
+        this.fitOrthographic();
+    }
+
+    // poses the camera for this frame, following frogs' positions alpha of the way into the next tick
+    update(frogs: Entity[], board: {width: number, height: number}, alpha: number) {
+        let time = performance.now() / 1000;
+        let elapsed = (this.lastTime === null) ? 0 : Math.min(time - this.lastTime, 0.1);
+        this.lastTime = time;
+
+        if(board.width != this.board.width || board.height != this.board.height) {
+            this.board = board;
+            this.fitOrthographic();
+        }
+
+        this.watchDeaths(frogs);
+
+        let playing = frogs.filter((frog: Entity) => !frog.get(Player).waiting && !frog.get(Player).out);
+        let followed = playing.length ? playing : frogs;
+
+        this.updateChase(followed, alpha, elapsed);
+
+        switch(this.mode) {
+            case CameraMode.CHASE:
+                this.wanted.position.copy(this.chase);
+                this.wanted.target.set(this.chase.x, this.chase.y + 7, 1);
+                this.wanted.up.set(0, 0, 1);
+                break;
+            case CameraMode.TOP_DOWN:
+                // as high as a perspective camera has to be to see what the orthographic one does
+                let halfHeight = this.orthographic.top;
+                let distance = halfHeight / Math.tan(this.perspective.fov * Math.PI / 360);
+
+                this.wanted.target.set(board.width / 2, board.height / 2, 0);
+                this.wanted.position.set(board.width / 2, board.height / 2, distance);
+                this.wanted.up.set(0, 1, 0);
+                break;
+            case CameraMode.FIRST_PERSON:
+                this.eyes(followed[0], alpha);
+                break;
+            case CameraMode.ORBIT:
+                let orbit = this.orbit;
+                this.wanted.target.set(board.width / 2, board.height / 2, 0);
+                this.wanted.position.set(
+                    board.width / 2 + Math.cos(orbit.yaw) * Math.cos(orbit.pitch) * orbit.distance,
+                    board.height / 2 + Math.sin(orbit.yaw) * Math.cos(orbit.pitch) * orbit.distance,
+                    Math.sin(orbit.pitch) * orbit.distance);
+                this.wanted.up.set(0, 0, 1);
+        }
+
+        if(this.transition > 0) {
+            this.transition = Math.max(0, this.transition - elapsed);
+
+            let t = 1 - this.transition / CAMERA_TRANSITION;
+            t = t * t * (3 - 2 * t);
+
+            this.pose.position.copy(this.from.position).lerp(this.wanted.position, t);
+            this.pose.target.copy(this.from.target).lerp(this.wanted.target, t);
+            this.pose.up.copy(this.from.up).lerp(this.wanted.up, t).normalize();
+        } else {
+            this.copy(this.wanted, this.pose);
+        }
+
+        this.shakeTime = Math.max(0, this.shakeTime - elapsed);
+        this.place(this.perspective);
+        this.place(this.orthographic);
+    }
+
+    private place(camera: THREE.Camera) {
+        camera.position.copy(this.pose.position);
+        camera.up.copy(this.pose.up);
+
+        if(camera === this.camera && this.shakeTime > 0) {
+            let size = SHAKE_SIZE * this.shakeTime / SHAKE_TIME;
+            camera.position.x += (Math.random() * 2 - 1) * size;
+            camera.position.y += (Math.random() * 2 - 1) * size;
+        }
+
+        camera.lookAt(this.pose.target);
+    }
+
+    // the center of the frogs, backing off and rising as they move apart to keep them all in frame
+    private updateChase(frogs: Entity[], alpha: number, elapsed: number) {
+        let positions = frogs.map((frog: Entity) => frog.interpolatedPosition(alpha));
+        let xs = positions.map((p: {x: number, y: number, z: number}, i: number) => p.x + frogs[i].width / 2);
+        let ys = positions.map((p: {x: number, y: number, z: number}) => p.y);
+        let center = {x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2};
+        let spread = Math.max((Math.max(...xs) - Math.min(...xs)) * 0.5, Math.max(...ys) - Math.min(...ys));
+
+        // drawn part of the way from the middle of the board towards the frogs
+        let middle = this.board.width / 2;
+        let x = middle + (center.x - middle) * 0.45;
+        let y = center.y - 7 - spread * 0.5;
+        let z = 6 + spread * 0.5;
+
+        if(!this.chase) {
+            this.chase = new THREE.Vector3(x, y, z);
+            this.copy({position: this.chase, target: new THREE.Vector3(x, y + 7, 1), up: new THREE.Vector3(0, 0, 1)}, this.pose);
+            return;
+        }
+
+        let damping = 2 * Math.sqrt(CHASE_STIFFNESS);
+        let v = this.chaseVelocity;
+        v.x += ((x - this.chase.x) * CHASE_STIFFNESS - v.x * damping) * elapsed;
+        v.y += ((y - this.chase.y) * CHASE_STIFFNESS - v.y * damping) * elapsed;
+        v.z += ((z - this.chase.z) * CHASE_STIFFNESS - v.z * damping) * elapsed;
+        this.chase.addScaledVector(v, elapsed);
+    }
+
+    private eyes(frog: Entity, alpha: number) {
+        let hopper = frog.get(Hopper);
+        if(hopper && hopper.hopping())
+            this.facing = hopper.jumpDir;
+
+        let ahead: {[direction: number]: {x: number, y: number}} = {
+            [Direction.UP]: {x: 0, y: 1}, [Direction.DOWN]: {x: 0, y: -1},
+            [Direction.LEFT]: {x: -1, y: 0}, [Direction.RIGHT]: {x: 1, y: 0}
+        };
+        let look = ahead[this.facing] || ahead[Direction.UP];
+        let position = frog.interpolatedPosition(alpha);
+        let x = position.x + frog.width / 2;
+        let y = position.y + frog.height / 2;
+
+        this.wanted.position.set(x, y, position.z + EYE_HEIGHT);
+        this.wanted.target.set(x + look.x * 4, y + look.y * 4, 0);
+        this.wanted.up.set(0, 0, 1);
+    }
+
+    // a frog has died when its lives go down
+    private watchDeaths(frogs: Entity[]) {
+        if(frogs !== this.following) {
+            this.following = frogs;
+            this.lives = [];
+        }
+
+        frogs.forEach((frog: Entity, i: number) => {
+            let count = frog.get(Lives).count;
+            if(count < this.lives[i])
+                this.shake();
+
+            this.lives[i] = count;
+        });
+        this.lives.length = frogs.length;
+    }
+
+    // shows the whole board, with more around it on the longer side of the window
+    private fitOrthographic() {
+        let aspect = this.size.width / this.size.height || 1;
+        let halfHeight = Math.max(this.board.height / 2, this.board.width / 2 / aspect) + TOP_DOWN_MARGIN;
+
+        this.orthographic.left = -halfHeight * aspect;
+        this.orthographic.right = halfHeight * aspect;
+        this.orthographic.top = halfHeight;
+        this.orthographic.bottom = -halfHeight;
+        this.orthographic.updateProjectionMatrix();
+    }
+
+    private copy(from: CameraPose, to: CameraPose) {
+        to.position.copy(from.position);
+        to.target.copy(from.target);
+        to.up.copy(from.up);
+    }
+
+    private listen() {
+        let dragging: {x: number, y: number} = null;
+
+        this.element.addEventListener("mousedown", (event: MouseEvent) => {
+            if(this.mode === CameraMode.ORBIT)
+                dragging = {x: event.clientX, y: event.clientY};
+        });
+
+        window.addEventListener("mouseup", () => dragging = null);
+
+        window.addEventListener("mousemove", (event: MouseEvent) => {
+            if(!dragging)
+                return;
+
+            this.orbit.yaw -= (event.clientX - dragging.x) * ORBIT_SPEED;
+            this.orbit.pitch = Math.max(0.05, Math.min(Math.PI / 2 - 0.01, this.orbit.pitch + (event.clientY - dragging.y) * ORBIT_SPEED));
+            dragging = {x: event.clientX, y: event.clientY};
+        });
+
+        this.element.addEventListener("wheel", (event: WheelEvent) => {
+            if(this.mode !== CameraMode.ORBIT)
+                return;
+
+            event.preventDefault();
+            this.orbit.distance = Math.max(3, this.orbit.distance * (1 + event.deltaY * ORBIT_ZOOM));
+        });
+    }
+
+    constructor(perspective: THREE.PerspectiveCamera, element: HTMLElement) {
+        this.perspective = perspective;
+        this.fov = perspective.fov;
+        this.framedAspect = perspective.aspect;
+        this.orthographic = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 5000);
+        this.element = element;
+
+        this.listen();
+    }
+}
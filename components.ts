@@ -0,0 +1,238 @@
+///<reference path="engine.ts"/>
+///<reference path="level.ts"/>
+///<reference path="input.ts"/>
+// COMPONENTS
+
+class Hopper extends Component {
+    jumpDir: Direction = Direction.NONE;
+    bufferedDir: Direction = Direction.NONE; // pressed mid-hop, taken once it lands
+    origin: {x: number, y: number} = {x: 0, y: 0}; // where the current hop started
+    targetSquare: {x: number, y: number} = {x: 0, y: 0};
+    jumpSpeed: number; // tiles per second
+    jumpTime: number = 0;
+    jumpProgress: number = 0;
+
+    hopping(): boolean {
+        return this.jumpDir != Direction.NONE;
+    }
+
+    constructor(jumpSpeed: number) {
+        super();
+
+        this.jumpSpeed = jumpSpeed;
+        this.jumpTime = 1 / jumpSpeed;
+    }
+}
+
+// Carried along by platforms it overlaps; drowns on water with none under it
+class Rider extends Component {
+    platforms: Entity[] = [];
+    waterContacts: number = 0;
+}
+
+// The player a frog belongs to, and what of theirs is kept while the other player is up
+class Player extends Component {
+    index: number;
+    moves: Action[]; // up, left, down, right
+    start: {x: number, y: number};
+    level: number = 1;
+    homes: boolean[] = [];    // home bays filled, by bay
+    waiting: boolean = false; // sitting out the other player's turn
+    out: boolean = false;     // no lives left
+
+    constructor(index: number, moves: Action[], start: {x: number, y: number}) {
+        super();
+
+        this.index = index;
+        this.moves = moves;
+        this.start = start;
+    }
+}
+
+class Lives extends Component {
+    count: number;
+
+    constructor(count: number) {
+        super();
+
+        this.count = count;
+    }
+}
+
+class Score extends Component {
+    points: number = 0;
+    furthestRow: number; // furthest row reached this life
+
+    constructor(startRow: number) {
+        super();
+
+        this.furthestRow = startRow;
+    }
+}
+
+// Seconds the frog has left to reach a home bay this life
+class LifeTimer extends Component {
+    limit: number;
+    remaining: number;
+
+    constructor(limit: number) {
+        super();
+
+        this.limit = limit;
+        this.remaining = limit;
+    }
+}
+
+class Platform extends Component {
+    afloat: boolean = true; // a rider standing on it once it isn't drowns
+}
+
+enum DiveState {
+    FLOATING,
+    SUBMERGED
+}
+
+class Diver extends Component {
+    state: DiveState = DiveState.FLOATING;
+    sinkPeriod: number; // seconds spent at the surface or under water
+    timeToSink: number;
+    speed: number;
+
+    constructor(sinkPeriod: number, speed: number) {
+        super();
+
+        this.sinkPeriod = sinkPeriod;
+        this.timeToSink = sinkPeriod;
+        this.speed = speed;
+    }
+}
+
+// Feeds a lane with logs, turtle groups or vehicles at random gaps
+class Spawner extends Component {
+    kind: LaneKind;
+    row: number;
+    speed: number;
+    direction: Direction;
+    gap: [number, number];
+    sizes: [number, number];
+    crocodileChance: number = 0;
+    snakeChance: number = 0;
+    timeToNext: number;
+
+    constructor(kind: LaneKind, row: number, speed: number, direction: Direction, gap: [number, number],
+                sizes: [number, number], timeToNext: number) {
+        super();
+
+        this.kind = kind;
+        this.row = row;
+        this.speed = speed;
+        this.direction = direction;
+        this.gap = gap;
+        this.sizes = sizes;
+        this.timeToNext = timeToNext;
+    }
+}
+
+// Spawned lane objects; they move with their Velocity and are removed once off the board
+class Traffic extends Component {}
+
+class HomeBay extends Component {
+    filled: boolean = false;
+    marker: Entity = null;
+    visitor: Entity = null; // a fly or crocodile head waiting in the bay
+}
+
+enum VisitorKind {
+    FLY,
+    CROCODILE
+}
+
+class BayVisitor extends Component {
+    kind: VisitorKind;
+    bay: Entity;
+    timeLeft: number; // seconds until it leaves
+
+    constructor(kind: VisitorKind, bay: Entity, timeLeft: number) {
+        super();
+
+        this.kind = kind;
+        this.bay = bay;
+        this.timeLeft = timeLeft;
+    }
+}
+
+// Kills a frog touching it, or only one touching its DeadlyPart if it has one
+class Hazard extends Component {}
+
+// Only this span of the entity is deadly, in tiles from its left edge
+class DeadlyPart extends Component {
+    x: number;
+    width: number;
+
+    bounds(): Bounds {
+        let position = this.entity.position;
+
+        return new Bounds(position.x + this.x, position.y, position.x + this.x + this.width, position.y + this.entity.height);
+    }
+
+    constructor(x: number, width: number) {
+        super();
+
+        this.x = x;
+        this.width = width;
+    }
+}
+
+// Kept at an offset from another entity, and removed along with it
+class Passenger extends Component {
+    carrier: Entity;
+    offset: {x: number, y: number, z: number};
+
+    constructor(carrier: Entity, offset: {x: number, y: number, z: number}) {
+        super();
+
+        this.carrier = carrier;
+        this.offset = offset;
+    }
+}
+
+// Crawls back and forth along its carrier, head first
+class Slither extends Component {
+    speed: number;
+    direction: number = 1; // 1 towards the carrier's right end, -1 towards its left
+
+    constructor(speed: number) {
+        super();
+
+        this.speed = speed;
+    }
+}
+
+class LadyFrog extends Component {
+    escorted: boolean = false; // riding the frog rather than a log
+}
+
+// Marks platforms the lady frog can turn up on
+class Log extends Component {}
+
+// Sends flies and crocodile heads into free home bays from time to time
+class VisitorSpawner extends Component {
+    timeToNext: number;
+
+    constructor(timeToNext: number) {
+        super();
+
+        this.timeToNext = timeToNext;
+    }
+}
+
+// Puts the lady frog on a log from time to time, if she isn't out already
+class LadyFrogSpawner extends Component {
+    timeToNext: number;
+
+    constructor(timeToNext: number) {
+        super();
+
+        this.timeToNext = timeToNext;
+    }
+}
@@ -0,0 +1,162 @@
+///<reference path="game.ts"/>
+// DEBUG
+//
+// What the debug overlay reports about a world, and the developer console's commands for poking at one.
+// Neither needs a browser, so headless runs can use them too.
+
+const DIRECTION_NAMES = ["UP", "DOWN", "LEFT", "RIGHT", "NONE"];
+
+// live entities of each type
+function entityCounts(world: World): {[type: string]: number} {
+    let counts: {[type: string]: number} = {};
+
+    for(let e of world.entities)
+        if(!e.markedForDeletion)
+            counts[e.type] = (counts[e.type] || 0) + 1;
+
+    return counts;
+}
+
+// A frog's movement and life state, a line each. It has no velocity of its own while it sits on a
+// platform; the platform's is the one carrying it.
+function describeFrog(frog: Entity): string[] {
+    let hopper = frog.get(Hopper);
+    let velocity = frog.get(Velocity);
+    let platform = ridingPlatform(frog);
+    let carried = platform ? platform.get(Velocity) : null;
+    let round = (n: number) => Math.round(n * 100) / 100;
+
+    return [
+        "frog " + frog.id + " (player " + (frog.get(Player).index + 1) + ") at " + round(frog.position.x) + ", " +
+            round(frog.position.y),
+        "jumpDir " + DIRECTION_NAMES[hopper.jumpDir] + ", buffered " + DIRECTION_NAMES[hopper.bufferedDir] +
+            ", targetSquare " + hopper.targetSquare.x + ", " + hopper.targetSquare.y,
+        "velocity " + round(velocity.x) + ", " + round(velocity.y) + (platform ?
+            ", carried " + round(carried.x) + " by " + platform.type + " " + platform.id : ", not carried"),
+        "markedForDeletion " + frog.markedForDeletion + ", enabled " + frog.enabled + ", solid " + frog.solid +
+            ", water contacts " + frog.get(Rider).waterContacts,
+        "lives " + frog.get(Lives).count + ", time left " + round(frog.get(LifeTimer).remaining)
+    ];
+}
+
+const SPAWN_KINDS = ["log", "turtle", "vehicle", "crocodile", "snake"];
+
+// Runs commands typed at the developer console against a world; each returns what to print
+class DevConsole {
+    world: World;
+    invincible: boolean = false;
+
+    run(line: string): string {
+        let words = line.trim().split(/\s+/);
+        let command = words.shift();
+
+        try {
+            switch(command) {
+                case "":
+                    return "";
+                case "help":
+                    return [
+                        "spawn <" + SPAWN_KINDS.join("|") + "> <row> [x] [speed] [length]: negative speeds go left",
+                        "lives <count> [player]",
+                        "god: toggles invincibility",
+                        "tp <x> <y> [player]: teleports the frog"
+                    ].join("\n");
+                case "spawn":
+                    return this.spawn(words[0], this.number(words[1], "row"), words[2], words[3], words[4]);
+                case "lives":
+                    let frog = this.frog(words[1]);
+                    frog.get(Lives).count = this.number(words[0], "count");
+
+                    return "player " + (frog.get(Player).index + 1) + " has " + frog.get(Lives).count + " lives";
+                case "god":
+                    this.invincible = !this.invincible;
+
+                    return "invincibility " + (this.invincible ? "on" : "off");
+                case "tp":
+                    return this.teleport(this.number(words[0], "x"), this.number(words[1], "y"), this.frog(words[2]));
+                default:
+                    return "unknown command " + command + "; try help";
+            }
+        } catch(e) {
+            return e.message;
+        }
+    }
+
+    private number(word: string, name: string): number {
+        let value = parseFloat(word);
+        if(isNaN(value))
+            throw new Error("expected a number for " + name + ", got " + (word || "nothing"));
+
+        return value;
+    }
+
+    private frog(word: string): Entity {
+        let frogs = findFrogs(this.world);
+        let frog = frogs[word ? this.number(word, "player") - 1 : 0];
+        if(!frog)
+            throw new Error("no player " + word);
+
+        return frog;
+    }
+
+    private spawn(kind: string, row: number, x: string, speed: string, length: string): string {
+        let world = this.world;
+        let velocity = speed ? this.number(speed, "speed") : 1.5;
+        let direction = (velocity < 0) ? Direction.LEFT : Direction.RIGHT;
+        let size = length ? this.number(length, "length") : 3;
+        let e: Entity;
+
+        velocity = Math.abs(velocity);
+
+        switch(kind) {
+            case "log":
+                e = buildLog(world, row, velocity, direction, size);
+                break;
+            case "turtle":
+                e = buildTurtle(world, row, velocity, direction, 0.5 * world.random.int(1, 10));
+                break;
+            case "vehicle":
+                e = buildVehicle(world, row, velocity, direction, size);
+                break;
+            case "crocodile":
+                e = buildCrocodile(world, row, velocity, direction);
+                break;
+            case "snake":
+                e = buildSnake(world, row, velocity, direction, size);
+                break;
+            default:
+                throw new Error("can't spawn " + (kind || "nothing") + "; expected one of " + SPAWN_KINDS.join(", "));
+        }
+
+        if(x)
+            e.warp({x: this.number(x, "x"), y: row, z: e.position.z});
+
+        world.entities.push(e);
+
+        return "spawned " + e.type + " " + e.id + " at " + e.position.x + ", " + row;
+    }
+
+    // lands the frog on the square, as if it had hopped there
+    private teleport(x: number, y: number, frog: Entity): string {
+        let hopper = frog.get(Hopper);
+        let velocity = frog.get(Velocity);
+
+        hopper.jumpDir = Direction.NONE;
+        hopper.bufferedDir = Direction.NONE;
+        velocity.x = velocity.y = velocity.z = 0;
+        frog.warp({x: x, y: y, z: 0});
+        this.world.collisionHandler.forget(frog);
+
+        return "player " + (frog.get(Player).index + 1) + " at " + x + ", " + y;
+    }
+
+    constructor(world: World) {
+        this.world = world;
+
+        let killFrog = world.scripts.killFrog;
+        world.scripts.killFrog = (frog: Entity, cause?: DeathCause) => {
+            if(!this.invincible)
+                killFrog(frog, cause);
+        };
+    }
+}
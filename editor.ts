@@ -0,0 +1,512 @@
+///<reference path="level.ts"/>
+// EDITOR
+//
+// Lays levels out in the browser: terrain is painted onto the board grid, and lanes are added, moved and
+// tuned in the panel beside it. The host plays the layout on request, and it can be exported and imported
+// as a level file.
+
+const EDITOR_TILE = 32; // pixels a tile takes on the grid
+const EDITOR_HEADER = 2; // tiles of row numbers left of the board; clicking there selects a row without painting
+
+const TERRAIN_COLORS: {[kind: string]: string} = {safe: "#2e5e1e", road: "#939393", water: "#40a4df", home: "#1f3d7a"};
+const LANE_COLORS: {[kind: string]: string} = {log: "#614126", turtle: "#006400", vehicle: "#b20000", snake: "#c8b400"};
+
+type EditorBrush = "safe" | "road" | "water" | "start" | "home";
+const EDITOR_BRUSHES: EditorBrush[] = ["water", "road", "safe", "start", "home"];
+const EDITOR_BRUSH_NAMES: {[brush: string]: string} = {
+    water: "water", road: "road", safe: "safe", start: "frog start", home: "home bay"
+};
+
+class LevelEditor {
+    level: LevelDescription;
+    element: HTMLElement;
+    onPlayTest: (level: LevelDescription) => void = null;
+    onStopTest: () => void = null;
+    private canvas: HTMLCanvasElement;
+    private panel: HTMLElement;
+    private backButton: HTMLButtonElement;
+    private brush: EditorBrush = "water";
+    private selectedRow: number = 0;
+    private selectedLane: LaneDescription = null;
+    private painting: boolean = false;
+
+    // edits a copy of level
+    load(level: LevelDescription) {
+        this.level = JSON.parse(JSON.stringify(level));
+        this.selectedRow = 0;
+        this.selectedLane = null;
+        this.refresh();
+    }
+
+    export(): string {
+        return JSON.stringify(this.level, null, 4);
+    }
+
+    private playTest() {
+        this.element.style.display = "none";
+        this.backButton.style.display = "block";
+
+        if(this.onPlayTest)
+            this.onPlayTest(JSON.parse(JSON.stringify(this.level)));
+    }
+
+    private stopTest() {
+        this.backButton.style.display = "none";
+        this.element.style.display = "flex";
+
+        if(this.onStopTest)
+            this.onStopTest();
+    }
+
+    private download() {
+        let link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([this.export()], {type: "application/json"}));
+        link.download = (this.level.name || "level").replace(/[^\w-]+/g, "-").toLowerCase() + ".json";
+        link.click();
+    }
+
+    private upload(file: File) {
+        let reader = new FileReader();
+
+        reader.onload = () => {
+            try {
+                this.load(parseLevel(reader.result as string, file.name));
+            } catch(e) {
+                alert(e.message);
+            }
+        };
+
+        reader.readAsText(file);
+    }
+
+    // TERRAIN
+
+    private tileAt(event: MouseEvent): {x: number, y: number} {
+        let bounds = this.canvas.getBoundingClientRect();
+        let x = Math.floor((event.clientX - bounds.left) / EDITOR_TILE) - EDITOR_HEADER;
+        let y = this.level.board.height - 1 - Math.floor((event.clientY - bounds.top) / EDITOR_TILE);
+
+        return {x: x, y: y};
+    }
+
+    private paint(x: number, y: number, dragged: boolean) {
+        let level = this.level;
+        let width = level.board.width;
+        let home = level.terrain[y] === "home";
+
+        if(x < 0 || x >= width)
+            return;
+
+        switch(this.brush) {
+            case "start":
+                if(!home)
+                    level.frogStart = {x: x, y: y};
+
+                break;
+            case "home":
+                let columns = level.homeColumns;
+                if(!home || dragged)
+                    break;
+
+                if(columns.indexOf(x) >= 0)
+                    columns.splice(columns.indexOf(x), 1);
+                else
+                    columns.push(x);
+
+                columns.sort((a: number, b: number) => a - b);
+                break;
+            default:
+                if(home)
+                    break;
+
+                let tiles = terrainTiles(level.terrain[y], width);
+                tiles[x] = this.brush;
+
+                // back to a single kind once the row is all one
+                level.terrain[y] = tiles.every((tile: TerrainKind) => tile === tiles[0]) ? tiles[0] : tiles;
+        }
+    }
+
+    private resize(width: number, height: number) {
+        let level = this.level;
+        width = Math.max(1, Math.floor(width) || 1);
+        height = Math.max(2, Math.floor(height) || 2);
+
+        // rows are added or taken away under the home row
+        let rows = level.terrain.slice(0, -1);
+        while(rows.length < height - 1)
+            rows.push("safe");
+
+        rows.length = height - 1;
+        rows = rows.map((row: TerrainRow) => {
+            if(!(row instanceof Array))
+                return row;
+
+            let tiles = row.slice(0, width);
+            while(tiles.length < width)
+                tiles.push(tiles[tiles.length - 1]);
+
+            return tiles;
+        });
+
+        level.terrain = rows.concat(["home"]);
+        level.board = {width: width, height: height};
+        level.homeColumns = level.homeColumns.filter((x: number) => x < width);
+        level.lanes = level.lanes.filter((lane: LaneDescription) => lane.row < height - 1);
+        level.frogStart = {x: Math.min(level.frogStart.x, width - 1), y: Math.min(level.frogStart.y, height - 2)};
+        this.selectedRow = Math.min(this.selectedRow, height - 1);
+
+        if(level.lanes.indexOf(this.selectedLane) < 0)
+            this.selectedLane = null;
+    }
+
+    // LANES
+
+    private selectRow(y: number) {
+        this.selectedRow = y;
+        this.selectedLane = this.level.lanes.filter((lane: LaneDescription) => lane.row == y)[0] || null;
+    }
+
+    // the kind suits the row's terrain, and the rest starts from the classic level's lanes
+    private addLane() {
+        let row = terrainTiles(this.level.terrain[this.selectedRow], this.level.board.width);
+        let kind: LaneKind = (row.indexOf("water") >= 0) ? "log" : (row.indexOf("road") >= 0) ? "vehicle" : "snake";
+        let lane: LaneDescription = {kind: kind, row: this.selectedRow, speed: 1.5, direction: "left", gap: [2, 6],
+            sizes: (kind === "vehicle") ? [1, 1] : [2, 4]};
+
+        this.level.lanes.push(lane);
+        this.level.lanes.sort((a: LaneDescription, b: LaneDescription) => a.row - b.row);
+        this.selectedLane = lane;
+    }
+
+    private deleteLane() {
+        let lanes = this.level.lanes;
+        if(this.selectedLane)
+            lanes.splice(lanes.indexOf(this.selectedLane), 1);
+
+        this.selectedLane = null;
+    }
+
+    private moveLane(rows: number) {
+        let lane = this.selectedLane;
+        if(!lane)
+            return;
+
+        lane.row = Math.max(0, Math.min(this.level.board.height - 2, lane.row + rows));
+        this.selectedRow = lane.row;
+        this.level.lanes.sort((a: LaneDescription, b: LaneDescription) => a.row - b.row);
+    }
+
+    // DRAWING
+
+    private refresh() {
+        this.drawGrid();
+        this.buildPanel();
+    }
+
+    private drawGrid() {
+        let level = this.level;
+        let width = level.board.width;
+        let height = level.board.height;
+        let tile = EDITOR_TILE;
+
+        this.canvas.width = (width + EDITOR_HEADER) * tile;
+        this.canvas.height = height * tile;
+
+        let context = this.canvas.getContext("2d");
+        context.font = "12px sans-serif";
+        context.textBaseline = "middle";
+
+        for(let y = 0; y < height; y++) {
+            let top = (height - 1 - y) * tile;
+            let row = level.terrain[y];
+            let tiles = terrainTiles(row, width);
+
+            context.fillStyle = (y == this.selectedRow) ? "#555555" : "#333333";
+            context.fillRect(0, top, EDITOR_HEADER * tile, tile);
+            context.fillStyle = "#FFFFFF";
+            context.fillText(String(y), 6, top + tile / 2);
+
+            tiles.forEach((kind: TerrainKind, x: number) => {
+                let left = (x + EDITOR_HEADER) * tile;
+                context.fillStyle = TERRAIN_COLORS[kind] || "#000000";
+                context.fillRect(left, top, tile, tile);
+
+                if(row === "home" && level.homeColumns.indexOf(x) >= 0) {
+                    context.fillStyle = "#6f8fd0";
+                    context.fillRect(left + 4, top + 4, tile - 8, tile - 8);
+                }
+
+                context.strokeStyle = "rgba(0, 0, 0, 0.3)";
+                context.strokeRect(left + 0.5, top + 0.5, tile - 1, tile - 1);
+            });
+
+            level.lanes.filter((lane: LaneDescription) => lane.row == y).forEach((lane: LaneDescription, i: number) => {
+                context.fillStyle = LANE_COLORS[lane.kind] || "#000000";
+                context.fillRect(EDITOR_HEADER * tile, top + tile - 6, width * tile, 4);
+
+                context.fillStyle = (lane === this.selectedLane) ? "#FFFF00" : "#FFFFFF";
+                context.fillText((lane.direction === "left" ? "◀ " : "▶ ") + lane.kind + " " + lane.speed,
+                    (EDITOR_HEADER + 0.2 + i * 5) * tile, top + tile / 2);
+            });
+
+            if(y == this.selectedRow) {
+                context.strokeStyle = "#FFFF00";
+                context.lineWidth = 2;
+                context.strokeRect(1, top + 1, (width + EDITOR_HEADER) * tile - 2, tile - 2);
+                context.lineWidth = 1;
+            }
+        }
+
+        let start = level.frogStart;
+        context.fillStyle = "#00FF00";
+        context.beginPath();
+        context.arc((start.x + EDITOR_HEADER + 0.5) * tile, (height - 0.5 - start.y) * tile, tile / 3, 0, Math.PI * 2);
+        context.fill();
+    }
+
+    private buildPanel() {
+        let panel = this.panel;
+        let level = this.level;
+        panel.innerHTML = "";
+
+        let section = (title: string) => {
+            let heading = document.createElement("h4");
+            heading.textContent = title;
+            heading.style.margin = "12px 0 4px";
+            panel.appendChild(heading);
+        };
+
+        section("Level");
+        panel.appendChild(textField("name", level.name, (value: string) => level.name = value));
+        panel.appendChild(numberField("time limit", level.timeLimit, 1, (value: number) => level.timeLimit = value));
+        panel.appendChild(numberField("width", level.board.width, 1,
+            (value: number) => this.resize(value, level.board.height)));
+        panel.appendChild(numberField("height", level.board.height, 1,
+            (value: number) => this.resize(level.board.width, value)));
+
+        section("Brush");
+        let brushes = document.createElement("div");
+        for(let brush of EDITOR_BRUSHES) {
+            let choice = editorButton(EDITOR_BRUSH_NAMES[brush], () => {
+                this.brush = brush;
+                this.refresh();
+            });
+
+            if(brush === this.brush)
+                choice.style.outline = "2px solid #FFFF00";
+
+            brushes.appendChild(choice);
+        }
+        panel.appendChild(brushes);
+
+        section("Lanes");
+        let list = document.createElement("select");
+        list.size = 8;
+        list.style.width = "100%";
+        level.lanes.forEach((lane: LaneDescription, i: number) => {
+            let option = document.createElement("option");
+            option.value = String(i);
+            option.textContent = "row " + lane.row + ": " + lane.kind + " " + lane.direction + " " + lane.speed;
+            option.selected = lane === this.selectedLane;
+            list.appendChild(option);
+        });
+        list.onchange = () => {
+            this.selectedLane = level.lanes[+list.value];
+            this.selectedRow = this.selectedLane.row;
+            this.refresh();
+        };
+        panel.appendChild(list);
+
+        let actions = document.createElement("div");
+        actions.appendChild(editorButton("add on row " + this.selectedRow, () => this.change(() => this.addLane())));
+        actions.appendChild(editorButton("delete", () => this.change(() => this.deleteLane())));
+        actions.appendChild(editorButton("up", () => this.change(() => this.moveLane(1))));
+        actions.appendChild(editorButton("down", () => this.change(() => this.moveLane(-1))));
+        panel.appendChild(actions);
+
+        let lane = this.selectedLane;
+        if(lane) {
+            panel.appendChild(choiceField("kind", lane.kind, LANE_KINDS, (value: string) => {
+                lane.kind = value as LaneKind;
+                if(lane.kind !== "log") {
+                    delete lane.crocodileChance;
+                    delete lane.snakeChance;
+                }
+            }));
+            panel.appendChild(numberField("speed", lane.speed, 0.1, (value: number) => lane.speed = value));
+            panel.appendChild(choiceField("direction", lane.direction, ["left", "right"],
+                (value: string) => lane.direction = value as "left" | "right"));
+            panel.appendChild(numberField("gap from", lane.gap[0], 1, (value: number) => lane.gap[0] = value));
+            panel.appendChild(numberField("gap to", lane.gap[1], 1, (value: number) => lane.gap[1] = value));
+            panel.appendChild(numberField("size from", lane.sizes[0], 1, (value: number) => lane.sizes[0] = value));
+            panel.appendChild(numberField("size to", lane.sizes[1], 1, (value: number) => lane.sizes[1] = value));
+
+            if(lane.kind === "log") {
+                panel.appendChild(numberField("crocodiles", lane.crocodileChance || 0, 0.05,
+                    (value: number) => value ? lane.crocodileChance = value : delete lane.crocodileChance));
+                panel.appendChild(numberField("snakes", lane.snakeChance || 0, 0.05,
+                    (value: number) => value ? lane.snakeChance = value : delete lane.snakeChance));
+            }
+        }
+
+        section("File");
+        let errors = validateLevel(level);
+        let play = editorButton("play test", () => this.playTest());
+        play.disabled = errors.length > 0;
+        panel.appendChild(play);
+        panel.appendChild(editorButton("export", () => this.download()));
+
+        let file = document.createElement("input");
+        file.type = "file";
+        file.accept = ".json,application/json";
+        file.style.display = "none";
+        file.onchange = () => {
+            if(file.files.length)
+                this.upload(file.files[0]);
+        };
+        panel.appendChild(file);
+        panel.appendChild(editorButton("import", () => file.click()));
+
+        if(errors.length) {
+            let list = document.createElement("ul");
+            list.style.color = "#FF8080";
+            list.style.paddingLeft = "16px";
+
+            for(let error of errors) {
+                let item = document.createElement("li");
+                item.textContent = error;
+                list.appendChild(item);
+            }
+
+            panel.appendChild(list);
+        }
+
+        // every field edits the level when it is changed, and the grid and panel are redrawn to match
+        let inputs = panel.querySelectorAll("input[data-edit], select[data-edit]");
+        for(let i = 0; i < inputs.length; i++)
+            inputs[i].addEventListener("change", () => this.refresh());
+    }
+
+    private change(edit: () => void) {
+        edit();
+        this.refresh();
+    }
+
+    private listen() {
+        this.canvas.addEventListener("mousedown", (event: MouseEvent) => {
+            let tile = this.tileAt(event);
+            if(tile.y < 0 || tile.y >= this.level.board.height)
+                return;
+
+            this.selectRow(tile.y);
+            this.painting = tile.x >= 0;
+            this.paint(tile.x, tile.y, false);
+            this.refresh();
+        });
+
+        this.canvas.addEventListener("mousemove", (event: MouseEvent) => {
+            let tile = this.tileAt(event);
+            if(!this.painting || tile.y < 0 || tile.y >= this.level.board.height)
+                return;
+
+            this.paint(tile.x, tile.y, true);
+            this.drawGrid();
+        });
+
+        window.addEventListener("mouseup", () => this.painting = false);
+
+        // typing in the fields shouldn't move the frog
+        this.element.addEventListener("keydown", (event: KeyboardEvent) => event.stopPropagation());
+    }
+
+    constructor(parent: HTMLElement, level: LevelDescription) {
+        this.element = document.createElement("div");
+        this.element.style.position = "absolute";
+        this.element.style.left = this.element.style.top = "0px";
+        this.element.style.width = this.element.style.height = "100%";
+        this.element.style.display = "flex";
+        this.element.style.overflow = "auto";
+        this.element.style.background = "#222222";
+        this.element.style.color = "#FFFFFF";
+        this.element.style.font = "14px sans-serif";
+        parent.appendChild(this.element);
+
+        this.canvas = document.createElement("canvas");
+        this.canvas.style.margin = "16px";
+        this.canvas.style.alignSelf = "flex-start";
+        this.element.appendChild(this.canvas);
+
+        this.panel = document.createElement("div");
+        this.panel.style.width = "280px";
+        this.panel.style.padding = "8px 16px";
+        this.element.appendChild(this.panel);
+
+        this.backButton = editorButton("back to the editor", () => this.stopTest());
+        this.backButton.style.position = "absolute";
+        this.backButton.style.right = "8px";
+        this.backButton.style.top = "8px";
+        this.backButton.style.display = "none";
+        parent.appendChild(this.backButton);
+
+        this.listen();
+        this.load(level);
+    }
+}
+
+function editorButton(label: string, click: () => void): HTMLButtonElement {
+    let button = document.createElement("button");
+    button.textContent = label;
+    button.style.margin = "2px";
+    button.onclick = click;
+
+    return button;
+}
+
+function editorField(label: string, input: HTMLElement): HTMLElement {
+    let field = document.createElement("label");
+    field.style.display = "flex";
+    field.style.justifyContent = "space-between";
+    field.style.margin = "2px 0";
+    field.textContent = label;
+
+    input.setAttribute("data-edit", "");
+    input.style.width = "120px";
+    field.appendChild(input);
+
+    return field;
+}
+
+function textField(label: string, value: string, change: (value: string) => void): HTMLElement {
+    let input = document.createElement("input");
+    input.value = value;
+    input.onchange = () => change(input.value);
+
+    return editorField(label, input);
+}
+
+// fields that don't hold a number are left for validation to complain about
+function numberField(label: string, value: number, step: number, change: (value: number) => void): HTMLElement {
+    let input = document.createElement("input");
+    input.type = "number";
+    input.step = String(step);
+    input.value = String(value);
+    input.onchange = () => change(parseFloat(input.value));
+
+    return editorField(label, input);
+}
+
+function choiceField(label: string, value: string, choices: string[], change: (value: string) => void): HTMLElement {
+    let select = document.createElement("select");
+
+    for(let choice of choices) {
+        let option = document.createElement("option");
+        option.value = option.textContent = choice;
+        option.selected = choice === value;
+        select.appendChild(option);
+    }
+
+    select.onchange = () => change(select.value);
+
+    return editorField(label, select);
+}
@@ -0,0 +1,797 @@
+// ENGINE
+
+enum Direction {
+    UP,
+    DOWN,
+    LEFT,
+    RIGHT,
+    NONE
+}
+
+// which inputs are held, by id; the game decides what the ids stand for
+interface InputState {
+    [id: number]: boolean;
+}
+
+class Bounds {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+
+    constructor(x1: number = 0, y1: number = 0, x2: number = 0, y2: number = 0) {
+        this.x1 = x1;
+        this.y1 = y1;
+        this.x2 = x2;
+        this.y2 = y2;
+    }
+
+    contains(x: number, y: number): boolean {
+        return x >= this.x1 && x < this.x2 && y >= this.y1 && y < this.y2;
+    }
+}
+
+interface CollideFunc {
+    (e: Entity): void;
+}
+
+interface DestroyFunc {
+    (e: Entity): void;
+}
+
+interface WorldListener {
+    (...args: any[]): void;
+}
+
+// a class, abstract or not, whose instances are T
+type Type<T> = Function & {prototype: T};
+
+// Numbers component classes so they can key plain objects
+class TypeRegistry {
+    private static ids: Map<Function, number> = new Map<Function, number>();
+
+    static id(type: Function): number {
+        let id = TypeRegistry.ids.get(type);
+
+        if(id === undefined) {
+            id = TypeRegistry.ids.size;
+            TypeRegistry.ids.set(type, id);
+        }
+
+        return id;
+    }
+
+    // the class and its ancestors below root, most derived first
+    static lineage(type: Function, root: Function): Function[] {
+        let types: Function[] = [];
+
+        for(let proto = type.prototype; proto && proto.constructor !== root; proto = Object.getPrototypeOf(proto))
+            types.push(proto.constructor);
+
+        return types;
+    }
+}
+
+abstract class Component {
+    entity: Entity = null;
+
+    destroy(): void {}
+}
+
+class Transform extends Component {
+    position: {x: number, y: number, z: number};
+    previousPosition: {x: number, y: number, z: number};
+    width: number;
+    height: number;
+
+    constructor(width: number, height: number, position: {x: number, y: number, z: number}) {
+        super();
+
+        this.width = width;
+        this.height = height;
+        this.position = position;
+        this.previousPosition = {x: position.x, y: position.y, z: position.z};
+    }
+}
+
+// units per second
+class Velocity extends Component {
+    x: number;
+    y: number;
+    z: number;
+
+    constructor(x: number = 0, y: number = 0, z: number = 0) {
+        super();
+
+        this.x = x;
+        this.y = y;
+        this.z = z;
+    }
+}
+
+interface ModelSpec {
+    color: number;
+    scale?: {x: number, y: number, z: number};
+    opacity?: number; // 1 if not given
+    model?: string;   // looked up by the presentation; a plain box if it has nothing by that name
+}
+
+abstract class Drawable extends Component {
+    // alpha is how far the frame lies between the previous tick and the current one
+    abstract draw(alpha: number): void;
+
+    constructor(parent: Entity) {
+        super();
+
+        this.entity = parent;
+    }
+}
+
+abstract class TextDrawable extends Component {
+    position: {x: number, y: number};
+    text: string;
+    color: string;
+
+    abstract draw(): void;
+
+    constructor(position: {x: number, y: number}, text: string, color: string) {
+        super();
+
+        this.position = position;
+        this.text = text;
+        this.color = color;
+    }
+}
+
+// A horizontal gauge in screen space, filled from the left
+abstract class BarDrawable extends Component {
+    position: {x: number, y: number};
+    width: number;
+    color: string;
+    fraction: number = 1;
+
+    abstract draw(): void;
+
+    constructor(position: {x: number, y: number}, width: number, color: string) {
+        super();
+
+        this.position = position;
+        this.width = width;
+        this.color = color;
+    }
+}
+
+// Supplies the visual side of entities; the engine itself never touches WebGL or the DOM
+interface Presentation {
+    createDrawable(parent: Entity, spec: ModelSpec): Drawable;
+    createText(position: {x: number, y: number}, text: string, color: string): TextDrawable;
+    createBar(position: {x: number, y: number}, width: number, color: string): BarDrawable;
+    render(): void;
+    dispose(): void; // once the world is destroyed, releases anything kept for reuse
+}
+
+class NullDrawable extends Drawable {
+    draw(alpha: number) {}
+}
+
+class NullTextDrawable extends TextDrawable {
+    draw() {}
+}
+
+class NullBarDrawable extends BarDrawable {
+    draw() {}
+}
+
+class NullPresentation implements Presentation {
+    createDrawable(parent: Entity, spec: ModelSpec): Drawable {
+        return new NullDrawable(parent);
+    }
+
+    createText(position: {x: number, y: number}, text: string, color: string): TextDrawable {
+        return new NullTextDrawable(position, text, color);
+    }
+
+    createBar(position: {x: number, y: number}, width: number, color: string): BarDrawable {
+        return new NullBarDrawable(position, width, color);
+    }
+
+    render() {}
+    dispose() {}
+}
+
+class Entity {
+    id: number;
+    type: string; // descriptive name, for debugging and traces
+    solid: boolean = true;
+    enabled: boolean = true;
+    collisionLayer: number = 0; // single bit; which layers react to it is up to the CollisionHandler's masks
+    components: Component[] = [];
+    transform: Transform;
+    world: World;
+    markedForDeletion: boolean = false;
+    pooled: boolean = false; // made by World.spawn, and kept for it to reuse once deleted
+    private componentsByType: {[typeId: number]: Component} = {};
+
+    onCollisionEnter: CollideFunc = null;
+    onCollisionStay: CollideFunc = null;
+    onCollisionExit: CollideFunc = null;
+    onDestroy: DestroyFunc = null;
+
+    // shorthands for the transform
+    get position(): {x: number, y: number, z: number} {
+        return this.transform.position;
+    }
+
+    set position(position: {x: number, y: number, z: number}) {
+        this.transform.position = position;
+    }
+
+    get width(): number {
+        return this.transform.width;
+    }
+
+    get height(): number {
+        return this.transform.height;
+    }
+
+    // Attaches a component, replacing any of the same type; it can be looked up by its own class or any ancestor
+    add<T extends Component>(component: T): T {
+        for(let type of TypeRegistry.lineage(component.constructor, Component))
+            this.remove(type);
+
+        for(let type of TypeRegistry.lineage(component.constructor, Component))
+            this.componentsByType[TypeRegistry.id(type)] = component;
+
+        component.entity = this;
+        this.components.push(component);
+
+        return component;
+    }
+
+    remove(type: Type<Component>) {
+        let component = this.get(type);
+        if(!component)
+            return;
+
+        for(let t of TypeRegistry.lineage(component.constructor, Component))
+            delete this.componentsByType[TypeRegistry.id(t)];
+
+        this.components.splice(this.components.indexOf(component), 1);
+        component.destroy();
+    }
+
+    get<T extends Component>(type: Type<T>): T {
+        return (this.componentsByType[TypeRegistry.id(type)] as T) || null;
+    }
+
+    has(type: Type<Component>): boolean {
+        return this.componentsByType[TypeRegistry.id(type)] !== undefined;
+    }
+
+    getBounds(): Bounds {
+        return new Bounds(this.position.x, this.position.y, this.position.x + this.width, this.position.y + this.height);
+    }
+
+    collidesWith(e: Entity): boolean {
+        let b1 = this.getBounds();
+        let b2 = e.getBounds();
+
+        return (b1.x1 < b2.x2 &&
+            b1.x2 > b2.x1 &&
+            b1.y1 < b2.y2 &&
+            b1.y2 > b2.y1);
+    }
+
+    collisionEnter(e: Entity) {
+        if(this.onCollisionEnter)
+            this.onCollisionEnter(e);
+    }
+
+    collisionStay(e: Entity) {
+        if(this.onCollisionStay)
+            this.onCollisionStay(e);
+    }
+
+    collisionExit(e: Entity) {
+        if(this.onCollisionExit)
+            this.onCollisionExit(e);
+    }
+
+    getCenter(): {x: number, y: number} {
+        return {x: this.position.x + this.width / 2, y: this.position.y + this.height / 2};
+    }
+
+    getGridPos(): {x: number, y: number} {
+        return {x: Math.round(this.position.x), y: Math.round(this.position.y)};
+    }
+
+    move(velocity: {x: number, y: number, z: number}) {
+        let dt = this.world.timestep;
+
+        this.position.x += velocity.x * dt;
+        this.position.y += velocity.y * dt;
+        this.position.z += velocity.z * dt;
+    }
+
+    // moves without interpolating from the old position on the next draw
+    warp(position: {x: number, y: number, z: number}) {
+        this.position = position;
+        this.savePosition();
+    }
+
+    savePosition() {
+        this.transform.previousPosition = {x: this.position.x, y: this.position.y, z: this.position.z};
+    }
+
+    interpolatedPosition(alpha: number): {x: number, y: number, z: number} {
+        let prev = this.transform.previousPosition;
+
+        return {x: prev.x + (this.position.x - prev.x) * alpha, y: prev.y + (this.position.y - prev.y) * alpha,
+            z: prev.z + (this.position.z - prev.z) * alpha};
+    }
+
+    destroy() {
+        this.markedForDeletion = true;
+
+        for(let c of this.components)
+            c.destroy();
+    }
+
+    // makes this like a new entity of the same type, with a new id and nothing but a transform
+    renew(width: number, height: number, position: {x: number, y: number, z: number}) {
+        this.id = this.world.nextEntityId++;
+        this.solid = true;
+        this.enabled = true;
+        this.collisionLayer = 0;
+        this.markedForDeletion = false;
+        this.components = [];
+        this.componentsByType = {};
+        this.onCollisionEnter = this.onCollisionStay = this.onCollisionExit = null;
+        this.onDestroy = null;
+        this.transform = this.add(new Transform(width, height, position));
+    }
+
+    constructor(type: string, world: World, width: number, height: number, position: {x: number, y: number, z: number}) {
+        this.type = type;
+        this.world = world;
+        this.renew(width, height, position);
+    }
+}
+
+// Game logic runs in systems, each updated once per tick in ascending order
+abstract class System {
+    order: number;
+
+    abstract update(world: World, inputs: InputState): void;
+
+    constructor(order: number) {
+        this.order = order;
+    }
+}
+
+// Seedable PRNG (mulberry32), so a run can be reproduced from its seed
+class Random {
+    seed: number;
+    private state: number;
+
+    static newSeed(): number {
+        return Math.floor(Math.random() * 0x100000000);
+    }
+
+    // uniform in [0, 1)
+    next(): number {
+        let t = this.state = (this.state + 0x6D2B79F5) | 0;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    // uniform integer in [min, max]
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+}
+
+interface Contact {
+    subject: Entity;
+    object: Entity;
+}
+
+// a collision event as reported to its subject
+interface CollisionReport extends Contact {
+    event: "enter" | "stay" | "exit";
+}
+
+// Reports enter/stay/exit events to entities whose layer's mask includes the other entity's layer.
+// The broadphase is a uniform grid: entities are bucketed by the unit cells their bounds cover, and
+// only entities sharing a cell whose layers are masked against each other get a bounds check.
+class CollisionHandler {
+    cellSize: number = 1;
+    checks: number = 0; // bounds checks made by the last handleCollisions
+    recording: boolean = false;         // keeps reported, for debugging
+    reported: CollisionReport[] = [];   // events since the last handleCollisions began, while recording
+    private masks: {[layer: number]: number} = {};
+    private involvedLayers: number = 0;
+    private contacts: {[key: string]: Contact} = {};
+
+    setMask(layer: number, mask: number) {
+        this.masks[layer] = mask;
+        this.involvedLayers |= layer | mask;
+    }
+
+    wants(e1: Entity, e2: Entity): boolean {
+        return ((this.masks[e1.collisionLayer] || 0) & e2.collisionLayer) != 0;
+    }
+
+    handleCollisions(entities: Entity[]) {
+        let touching: {[key: string]: boolean} = {};
+
+        this.checks = 0;
+        this.reported = [];
+
+        this.findPairs(entities.filter((e: Entity) => e.solid), (e1: Entity, e2: Entity) => {
+            this.checks++;
+
+            // checked as pairs are visited, so an entity moved or taken out of play by an earlier event is seen as it is now
+            if(!e1.solid || !e2.solid || !e1.collidesWith(e2))
+                return;
+
+            if(this.wants(e1, e2))
+                this.touch(e1, e2, touching);
+            if(this.wants(e2, e1))
+                this.touch(e2, e1, touching);
+        });
+
+        for(let key in this.contacts)
+            if(!touching[key])
+                this.separate(key);
+    }
+
+    // ends every contact of an entity now, e.g. when it is teleported
+    forget(e: Entity) {
+        for(let key in this.contacts)
+            if(this.contacts[key].subject === e || this.contacts[key].object === e)
+                this.separate(key);
+    }
+
+    // Calls visit once for each pair that may be overlapping, in the order the earlier entity of the pair is listed
+    protected findPairs(entities: Entity[], visit: (e1: Entity, e2: Entity) => void) {
+        let cells: {[key: number]: number[]} = {};
+        let subjects: number[] = [];
+        let pairs: [number, number][] = [];
+        let seen: {[pair: number]: boolean} = {};
+
+        for(let i = 0; i < entities.length; i++) {
+            let layer = entities[i].collisionLayer;
+            if((layer & this.involvedLayers) == 0)
+                continue;
+
+            if(this.masks[layer])
+                subjects.push(i);
+
+            this.forCells(entities[i], (key: number) => (cells[key] || (cells[key] = [])).push(i));
+        }
+
+        // only entities whose layer has a mask look for neighbours
+        for(let i of subjects)
+            this.forCells(entities[i], (key: number) => {
+                for(let j of cells[key]) {
+                    let pair = (i < j) ? i * entities.length + j : j * entities.length + i;
+
+                    if(i != j && !seen[pair] && (this.wants(entities[i], entities[j]) || this.wants(entities[j], entities[i]))) {
+                        seen[pair] = true;
+                        pairs.push((i < j) ? [i, j] : [j, i]);
+                    }
+                }
+            });
+
+        pairs.sort((a: [number, number], b: [number, number]) => (a[0] - b[0]) || (a[1] - b[1]));
+
+        for(let pair of pairs)
+            visit(entities[pair[0]], entities[pair[1]]);
+    }
+
+    private touch(subject: Entity, object: Entity, touching: {[key: string]: boolean}) {
+        let key = subject.id + ">" + object.id;
+        touching[key] = true;
+
+        if(this.contacts[key]) {
+            this.report("stay", subject, object);
+            subject.collisionStay(object);
+        } else {
+            this.contacts[key] = {subject: subject, object: object};
+            this.report("enter", subject, object);
+            subject.collisionEnter(object);
+        }
+    }
+
+    private separate(key: string) {
+        let contact = this.contacts[key];
+        delete this.contacts[key];
+
+        this.report("exit", contact.subject, contact.object);
+        contact.subject.collisionExit(contact.object);
+    }
+
+    private report(event: "enter" | "stay" | "exit", subject: Entity, object: Entity) {
+        if(this.recording)
+            this.reported.push({event: event, subject: subject, object: object});
+    }
+
+    private forCells(e: Entity, callback: (key: number) => void) {
+        let b = e.getBounds();
+        let x2 = Math.ceil(b.x2 / this.cellSize) - 1;
+        let y2 = Math.ceil(b.y2 / this.cellSize) - 1;
+
+        for(let x = Math.floor(b.x1 / this.cellSize); x <= x2; x++)
+            for(let y = Math.floor(b.y1 / this.cellSize); y <= y2; y++)
+                callback(x * 65536 + y);
+    }
+}
+
+// Deleted entities waiting to be renewed by World.spawn, by type
+class EntityPool {
+    created: number = 0; // by spawn, because none were free
+    reused: number = 0;
+    private free: {[type: string]: Entity[]} = {};
+
+    take(type: string): Entity {
+        let free = this.free[type];
+        if(!free || !free.length)
+            return null;
+
+        this.reused++;
+        return free.pop();
+    }
+
+    put(e: Entity) {
+        (this.free[e.type] || (this.free[e.type] = [])).push(e);
+    }
+
+    size(): number {
+        let size = 0;
+        for(let type in this.free)
+            size += this.free[type].length;
+
+        return size;
+    }
+
+    clear() {
+        this.free = {};
+    }
+}
+
+const DEFAULT_TICK_RATE = 60;
+
+// What a game keeps on its worlds, named and typed by the game declaring its own members of these
+interface WorldScripts {}
+interface WorldProperties {}
+
+class World {
+    presentation: Presentation;
+    random: Random;
+    tickRate: number;
+    timestep: number; // seconds per tick
+    frame: number = 0;
+    nextEntityId: number = 0;
+    entities: Entity[] = [];
+    inputs: InputState = [];         // held inputs for ticks that aren't given their own
+    held: InputState = [];           // inputs of the tick being run
+    private previous: InputState = []; // inputs of the tick before
+    collisionHandler: CollisionHandler = new CollisionHandler();
+    pool: EntityPool = new EntityPool();
+    systems: System[] = [];
+    scripts: WorldScripts = {} as WorldScripts;
+    properties: WorldProperties = {} as WorldProperties;
+    private listeners: {[event: number]: WorldListener[]} = {};
+
+    // pooled entities deleted this tick and the tick before; systems and contacts may still refer to them
+    // until the end of the next tick, so only then can they be renewed
+    private retired: Entity[] = [];
+    private retiring: Entity[] = [];
+
+    press(id: number) {
+        this.inputs[id] = true;
+    }
+
+    release(id: number) {
+        this.inputs[id] = false;
+    }
+
+    // held this tick but not the one before
+    justPressed(id: number): boolean {
+        return !!this.held[id] && !this.previous[id];
+    }
+
+    // Listeners hear of events as they happen, for sound and the like; they mustn't change the simulation
+    on(event: number, listener: WorldListener) {
+        (this.listeners[event] || (this.listeners[event] = [])).push(listener);
+    }
+
+    emit(event: number, ...args: any[]) {
+        for(let listener of this.listeners[event] || [])
+            listener(...args);
+    }
+
+    handleDeletions() {
+        let kept = 0;
+
+        for(let e of this.entities) {
+            if(!e.markedForDeletion)
+                this.entities[kept++] = e;
+            else if(e.pooled)
+                this.retired.push(e);
+        }
+
+        this.entities.length = kept;
+    }
+
+    // An entity like new Entity(type, ...) would make, but renewed from one destroyed earlier if there is one.
+    // It has to be added to entities like any other.
+    spawn(type: string, width: number, height: number, position: {x: number, y: number, z: number}): Entity {
+        let e = this.pool.take(type);
+
+        if(e) {
+            e.renew(width, height, position);
+        } else {
+            e = new Entity(type, this, width, height, position);
+            e.pooled = true;
+            this.pool.created++;
+        }
+
+        return e;
+    }
+
+    // systems sharing an order run in the order they were added
+    addSystem(system: System) {
+        let i = 0;
+        while(i < this.systems.length && this.systems[i].order <= system.order)
+            i++;
+
+        this.systems.splice(i, 0, system);
+    }
+
+    // enabled entities having every one of the given components, in entity order
+    query(...types: Type<Component>[]): Entity[] {
+        return this.entities.filter((e: Entity) => {
+            if(!e.enabled || e.markedForDeletion)
+                return false;
+
+            for(let type of types)
+                if(!e.has(type))
+                    return false;
+
+            return true;
+        });
+    }
+
+    step(inputs: InputState = this.inputs) {
+        // copied, since callers such as press() keep changing the object they pass
+        this.held = [];
+        for(let id in inputs)
+            this.held[id] = inputs[id];
+
+        for(let system of this.systems)
+            system.update(this, this.held);
+
+        this.previous = this.held;
+
+        this.handleDeletions();
+    }
+
+    handleCollisions() {
+        this.collisionHandler.handleCollisions(this.entities);
+
+        this.handleDeletions();
+    }
+
+    // advances the simulation one frame without drawing
+    tick(inputs: InputState = this.inputs) {
+        for(let e of this.entities)
+            e.savePosition();
+
+        this.step(inputs);
+        this.handleCollisions();
+        this.frame++;
+
+        for(let e of this.retiring)
+            this.pool.put(e);
+
+        this.retiring = this.retired;
+        this.retired = [];
+    }
+
+    draw(alpha: number = 1) {
+        for(let e of this.entities) {
+            let drawable = e.get(Drawable);
+            if(drawable)
+                drawable.draw(alpha);
+
+            let text = e.get(TextDrawable);
+            if(text)
+                text.draw();
+
+            let bar = e.get(BarDrawable);
+            if(bar)
+                bar.draw();
+        }
+
+        this.presentation.render();
+    }
+
+    // destroys every entity, releasing whatever their components hold in the presentation
+    destroy() {
+        for(let e of this.entities)
+            e.destroy();
+
+        this.handleDeletions();
+
+        this.retired = [];
+        this.retiring = [];
+        this.pool.clear();
+        this.presentation.dispose();
+    }
+
+    constructor(presentation: Presentation = new NullPresentation(), seed: number = Random.newSeed(),
+                tickRate: number = DEFAULT_TICK_RATE) {
+        this.presentation = presentation;
+        this.random = new Random(seed);
+        this.tickRate = tickRate;
+        this.timestep = 1 / tickRate;
+    }
+}
+
+// Runs whole World ticks out of real elapsed time, independent of the display's refresh rate
+class FixedStepLoop {
+    timestep: number;
+    maxElapsed: number = 0.25; // longer stalls are dropped rather than caught up
+    paused: boolean = false;
+    alpha: number = 1;
+    private accumulator: number = 0;
+    private pendingSteps: number = 0;
+
+    advance(elapsed: number, tick: () => void) {
+        if(this.paused) {
+            for(; this.pendingSteps > 0; this.pendingSteps--)
+                tick();
+
+            this.alpha = 1;
+            return;
+        }
+
+        this.accumulator += Math.min(elapsed, this.maxElapsed);
+
+        while(this.accumulator >= this.timestep) {
+            tick();
+            this.accumulator -= this.timestep;
+        }
+
+        this.alpha = this.accumulator / this.timestep;
+    }
+
+    pause() {
+        this.paused = true;
+    }
+
+    resume() {
+        this.paused = false;
+        this.accumulator = 0;
+        this.pendingSteps = 0;
+    }
+
+    // while paused, runs exactly one tick on the next advance
+    stepOnce() {
+        if(this.paused)
+            this.pendingSteps++;
+    }
+
+    constructor(timestep: number) {
+        this.timestep = timestep;
+    }
+}
@@ -1,703 +1,1160 @@
-///<reference path="three.d.ts"/>
-// ENGINE
-
-import WebGLRenderer = THREE.WebGLRenderer;
-import PerspectiveCamera = THREE.PerspectiveCamera;
-import Scene = THREE.Scene;
-import Mesh = THREE.Mesh;
-import CubeGeometry = THREE.CubeGeometry;
-import MeshBasicMaterial = THREE.MeshBasicMaterial;
-import Renderer = THREE.Renderer;
-import Vector3 = THREE.Vector3;
-
-enum Direction {
-    UP,
-    DOWN,
-    LEFT,
-    RIGHT,
-    NONE
-}
-
-interface KeyboardState {
-    [i: number]: boolean;
-}
-
-class Bounds {
-    x1: number;
-    y1: number;
-    x2: number;
-    y2: number;
-
-    constructor(x1: number = 0, y1: number = 0, x2: number = 0, y2: number = 0) {
-        this.x1 = x1;
-        this.y1 = y1;
-        this.x2 = x2;
-        this.y2 = y2;
-    }
-}
+///<reference path="engine.ts"/>
+///<reference path="level.ts"/>
+///<reference path="input.ts"/>
+///<reference path="components.ts"/>
+///<reference path="scores.ts"/>
+// GAME
 
-interface StepFunc {
-    (inputs: KeyboardState): void;
+enum SystemOrder {
+    RIDING,
+    FROG,
+    TIMER,
+    SCORE,
+    SPAWNERS,
+    TRAFFIC,
+    PASSENGERS,
+    DIVERS,
+    VISITORS,
+    GHOSTS,
+    HUD
 }
 
-interface CollideFunc {
-    (e: Entity): void;
+enum GameMode {
+    SINGLE,
+    ALTERNATING,  // two players take turns with one frog on the board, each keeping their own homes and level
+    SIMULTANEOUS  // two frogs on the board at once, sharing the homes
 }
 
-interface DestroyFunc {
-    (e: Entity): void;
+// told to the world's listeners, with the frog it happened to
+enum GameEvent {
+    HOP,
+    DIED,       // with the DeathCause
+    HOME,
+    TIME_LOW,   // its timer is down to TIME_LOW_WARNING
+    GAME_OVER   // with no frog
 }
 
-abstract class Component {
-    abstract handle(): void;
-    destroy(): void {}
+enum DeathCause {
+    SQUASHED,   // or bitten, or dashed against the hedge
+    DROWNED,    // or carried off the side of the river
+    TIME_UP
 }
 
-class Drawable extends Component {
-    model: Mesh = null;
-    renderer: Renderer;
-    scene: Scene;
-    parent: Entity;
+// the game's hooks on the world; hosts replace gameOver, and may wrap the others to watch or change them
+interface WorldScripts {
+    gameOver: (self: World) => void;
+    respawnFrog: (frog: Entity) => void;
+    killFrog: (frog: Entity, cause?: DeathCause) => void;
+    frogDied: (frog: Entity) => void;
+    nextPlayer: (frog: Entity) => Entity;
+    switchPlayer: (from: Entity, to: Entity) => void;
+    reachHome: (frog: Entity, bay: Entity) => void;
+    escortLadyFrog: (frog: Entity, lady: Entity) => void;
+    levelComplete: (self: World) => void;
+}
 
-    handle() {
-        this.model.position.x = this.parent.position.x + this.parent.width / 2;
-        this.model.position.y = this.parent.position.y + this.parent.height / 2;
-        this.model.position.z = this.parent.position.z;
-    }
+interface WorldProperties {
+    level: number;
+    mode: GameMode;
+    description: LevelDescription;
+    board: {width: number, height: number};
+    frogStart: {x: number, y: number};
+    highScore: number; // best score so far, for the HUD
+}
 
-    destroy() {
-        if(this.model)
-            this.scene.remove(this.model);
-    }
+const GAME_MODE_NAMES = ["1 PLAYER", "2 PLAYERS ALTERNATING", "2 PLAYERS SIMULTANEOUS"];
+const GAME_MODE_PLAYERS = [1, 2, 2];
+const PLAYER_SPACING = 4; // columns between the starts of simultaneous players
+const PLAYER_COLORS = [0x00FF00, 0x00FFFF];
+
+const MOVE_DIRECTIONS = [Direction.UP, Direction.LEFT, Direction.DOWN, Direction.RIGHT]; // in the order of a Player's moves
+const OPPOSITE: {[direction: number]: Direction} = {
+    [Direction.UP]: Direction.DOWN,
+    [Direction.DOWN]: Direction.UP,
+    [Direction.LEFT]: Direction.RIGHT,
+    [Direction.RIGHT]: Direction.LEFT
+};
+
+const CROCODILE_LENGTH = 3;
+const VISITOR_INTERVAL: [number, number] = [4, 10];     // seconds between bay visitors
+const VISITOR_STAY = 5;
+const CROCODILE_VISIT_CHANCE = 0.3;                     // otherwise a fly
+const LADY_FROG_INTERVAL: [number, number] = [8, 15];
+const TIME_LOW_WARNING = 5;                             // seconds
+
+// Carries riders along on the platform they stand on; they drown in water with none under them, and die
+// if carried off the side of the board
+class RiderSystem extends System {
+    update(world: World, inputs: InputState) {
+        let board = world.properties.board;
+
+        for(let frog of world.query(Rider, Hopper)) {
+            if(frog.get(Hopper).hopping())
+                continue;
+
+            let platform = ridingPlatform(frog);
+
+            if(!platform && frog.get(Rider).waterContacts > 0) {
+                world.scripts.killFrog(frog, DeathCause.DROWNED);
+                continue;
+            }
 
-    constructor(parent: Entity, renderer: Renderer, scene: Scene, model?: Mesh) {
-        super();
+            if(!platform)
+                continue;
 
-        this.parent = parent;
-        this.renderer = renderer;
-        this.scene = scene;
+            frog.move(platform.get(Velocity));
 
-        if(model) {
-            this.model = model;
-            scene.add(model);
+            let center = frog.getCenter();
+            if(center.x < 0 || center.x > board.width)
+                world.scripts.killFrog(frog, DeathCause.DROWNED);
         }
     }
-}
 
-class TextDrawable extends Component {
-    position: {x: number, y: number};
-    text: string;
-    color: string;
-    private div;
+    constructor() {
+        super(SystemOrder.RIDING);
+    }
+}
 
-    handle() {
-        this.div.innerHTML = this.text;
-        this.div.style.left = this.position.x;
-        this.div.style.top = this.position.y;
-        this.div.style.color = this.color;
+// Hops each frog on its player's move presses, from the grid square it is on
+class FrogSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let frog of world.query(Hopper, Rider, Velocity, Player))
+            this.updateFrog(world, frog);
     }
 
-    destroy() {
+    private pressedDirection(world: World, moves: Action[]): Direction {
+        for(let i = 0; i < moves.length; i++)
+            if(world.justPressed(moves[i]))
+                return MOVE_DIRECTIONS[i];
 
+        return Direction.NONE;
     }
 
-    constructor(position: {x: number, y: number}, text: string, color: string) {
-        super();
+    private updateFrog(world: World, frog: Entity) {
+        let hopper = frog.get(Hopper);
+        let velocity = frog.get(Velocity);
+        let pressed = this.pressedDirection(world, frog.get(Player).moves);
 
-        this.position = position;
-        this.text = text;
-        this.color = color;
+        if(hopper.hopping()) {
+            // taken as the next hop once this one lands
+            if(pressed != Direction.NONE)
+                hopper.bufferedDir = pressed;
 
-        this.div = document.createElement("div");
-        this.div.style.position = "absolute";
-        this.div.style.width = 100;
-        this.div.style.height = 100;
-        document.body.insertBefore(this.div, document.body.firstChild);
-    }
-}
+            frog.move(velocity);
+
+            hopper.jumpProgress += world.timestep;
+            frog.position.z = Math.sin((hopper.jumpProgress / hopper.jumpTime) * Math.PI) * 0.3;
+
+            // every hop takes jumpTime, however far off the grid it started
+            if(hopper.jumpProgress >= hopper.jumpTime - 1e-9) {
+                hopper.jumpDir = Direction.NONE;
+                velocity.x = velocity.y = velocity.z = 0;
+                frog.position.x = hopper.targetSquare.x;
+                frog.position.y = hopper.targetSquare.y;
+                frog.position.z = 0;
+            }
+        } else {
+            let dir = (pressed != Direction.NONE) ? pressed : hopper.bufferedDir;
+            hopper.bufferedDir = Direction.NONE;
 
-class Entity {
-    type: string;
-    solid: boolean = true;
-    enabled: boolean = true;
-    components: Component[] = [];
-    width: number;
-    height: number;
-    position: {x: number, y: number, z: number};
-    velocity: {x: number, y: number, z: number} = {x: 0, y: 0, z: 0};
-    properties: any;
-    world: World;
-    markedForDeletion: boolean = false;
-
-    customStep: StepFunc = null;
-    customCollide: CollideFunc = null;
-    onDestroy: DestroyFunc = null;
-
-    step(inputs: KeyboardState) {
-        for(let e of this.components)
-            e.handle();
-
-        if(this.customStep)
-            this.customStep(inputs);
-        else {
-            this.move();
+            let jump: boolean = false;
+            let curPos = frog.getGridPos();
+            let board = world.properties.board;
+
+            if(dir == Direction.UP && curPos.y < board.height - 1) {
+                hopper.jumpDir = Direction.UP;
+                curPos.y++;
+                jump = true;
+            } else if(dir == Direction.LEFT && curPos.x > 0) {
+                hopper.jumpDir = Direction.LEFT;
+                curPos.x--;
+                jump = true;
+            } else if(dir == Direction.DOWN && curPos.y > 0) {
+                hopper.jumpDir = Direction.DOWN;
+                curPos.y--;
+                jump = true;
+            } else if(dir == Direction.RIGHT && curPos.x < board.width - 1) {
+                hopper.jumpDir = Direction.RIGHT;
+                curPos.x++;
+                jump = true;
+            }
+
+            // aimed at a grid square, so a hop off a moving platform also takes the frog back onto the grid
+            if(jump) {
+                hopper.origin = {x: frog.position.x, y: frog.position.y};
+                hopper.targetSquare = curPos;
+                hopper.jumpTime = 1 / hopper.jumpSpeed;
+                hopper.jumpProgress = 0;
+                velocity.x = (curPos.x - frog.position.x) * hopper.jumpSpeed;
+                velocity.y = (curPos.y - frog.position.y) * hopper.jumpSpeed;
+
+                world.emit(GameEvent.HOP, frog);
+            }
         }
     }
 
-    getBounds(): Bounds {
-        return new Bounds(this.position.x, this.position.y, this.position.x + this.width, this.position.y + this.height);
+    constructor() {
+        super(SystemOrder.FROG);
     }
+}
 
-    collidesWith(e: Entity): boolean {
-        let b1 = this.getBounds();
-        let b2 = e.getBounds();
+// Kills the frog when its time for this life runs out
+class TimerSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let frog of world.query(LifeTimer)) {
+            let timer = frog.get(LifeTimer);
+            let before = timer.remaining;
+            timer.remaining = Math.max(0, timer.remaining - world.timestep);
 
-        return (b1.x1 < b2.x2 &&
-            b1.x2 > b2.x1 &&
-            b1.y1 < b2.y2 &&
-            b1.y2 > b2.y1);
+            if(before > TIME_LOW_WARNING && timer.remaining <= TIME_LOW_WARNING)
+                world.emit(GameEvent.TIME_LOW, frog);
+
+            if(timer.remaining == 0)
+                world.scripts.killFrog(frog, DeathCause.TIME_UP);
+        }
     }
 
-    collide(e: Entity) {
-        if(this.customCollide)
-            this.customCollide(e);
+    constructor() {
+        super(SystemOrder.TIMER);
     }
+}
 
-    getGridPos(): {x: number, y: number} {
-        return {x: Math.round(this.position.x), y: Math.round(this.position.y)};
+// Awards points for each new row the frog lands on
+class ScoreSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let frog of world.query(Score, Hopper)) {
+            let score = frog.get(Score);
+            let row = frog.getGridPos().y;
+            if(!frog.get(Hopper).hopping() && row > score.furthestRow) {
+                score.points += POINTS_PER_ROW * (row - score.furthestRow);
+                score.furthestRow = row;
+            }
+        }
     }
 
-    moving() {
-        return this.velocity.x == 0 && this.velocity.y == 0 && this.velocity.z == 0;
+    constructor() {
+        super(SystemOrder.SCORE);
     }
+}
 
-    move(velocity?: {x: number, y: number, z: number}) {
-        let vel = velocity ? velocity : this.velocity;
+// Shows every player's score, including one sitting out their turn
+class HudSystem extends System {
+    update(world: World, inputs: InputState) {
+        let frogs = findFrogs(world);
 
-        this.position.x += vel.x;
-        this.position.y += vel.y;
-        this.position.z += vel.z;
-    }
+        for(let frog of frogs) {
+            let points = frog.get(Score).points;
+            let name = (frogs.length > 1) ? "P" + (frog.get(Player).index + 1) + " " : "";
 
-    destroy() {
-        this.markedForDeletion = true;
+            frog.get(TextDrawable).text = name + "SCORE " + points + "  HI " + Math.max(points, world.properties.highScore) +
+                "  LIVES " + Math.max(0, frog.get(Lives).count) + "  LEVEL " + world.properties.level;
 
-        for(let c of this.components)
-            c.destroy();
+            let timer = frog.get(LifeTimer);
+            let bar = frog.get(BarDrawable);
+            if(timer && bar)
+                bar.fraction = timer.remaining / timer.limit;
+        }
     }
 
-    constructor(type: string, world: World, width: number, height: number, position: {x: number, y: number, z: number}) {
-        this.type = type;
-        this.world = world;
-        this.width = width;
-        this.height = height;
-        this.position = position;
+    constructor() {
+        super(SystemOrder.HUD);
     }
 }
 
-class CollisionHandler {
-    pairs: {[type: string]: [string]} = {};
+class SpawnerSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let e of world.query(Spawner)) {
+            let spawner = e.get(Spawner);
+            spawner.timeToNext -= world.timestep;
+
+            if(spawner.timeToNext <= 0) {
+                let blocks = this.spawn(world, spawner);
+                spawner.timeToNext += (1 / spawner.speed) * (blocks + world.random.int(spawner.gap[0], spawner.gap[1]));
+            }
+        }
+    }
+
+    // returns how many tiles long the spawned object or group is
+    private spawn(world: World, spawner: Spawner): number {
+        let size = world.random.int(spawner.sizes[0], spawner.sizes[1]);
+
+        switch(spawner.kind) {
+            case "log":
+                if(spawner.crocodileChance > 0 && world.random.next() < spawner.crocodileChance) {
+                    world.entities.push(buildCrocodile(world, spawner.row, spawner.speed, spawner.direction));
+                    return CROCODILE_LENGTH;
+                }
+
+                let log = buildLog(world, spawner.row, spawner.speed, spawner.direction, size);
+                world.entities.push(log);
+
+                if(size >= 3 && spawner.snakeChance > 0 && world.random.next() < spawner.snakeChance)
+                    world.entities.push(buildLogSnake(world, log, spawner.speed));
+
+                break;
+            case "turtle":
+                let sinkPeriod = 0.5 * world.random.int(1, 10);
 
-    handleCollisions(entities: Entity[]) {
-        function inArr(str: string, arr: string[]): boolean {
-            for(let s of arr)
-                if(s === str)
-                    return true;
+                for(let i = 0; i < size; i++) {
+                    let turtle = buildTurtle(world, spawner.row, spawner.speed, spawner.direction, sinkPeriod);
+                    turtle.position.x += (spawner.direction === Direction.RIGHT) ? -i : i;
+                    world.entities.push(turtle);
+                }
 
-            return false;
+                break;
+            case "vehicle":
+                world.entities.push(buildVehicle(world, spawner.row, spawner.speed, spawner.direction, size));
+                break;
+            case "snake":
+                world.entities.push(buildSnake(world, spawner.row, spawner.speed, spawner.direction, size));
         }
 
-        for(let e1 of entities)
-            for(let e2 of entities)
-                if(e1.solid && e2.solid)
-                    if(e1 !== e2 && e1.collidesWith(e2)) {
-                        if (this.pairs[e1.type] != undefined && inArr(e2.type, this.pairs[e1.type]))
-                            e1.collide(e2);
-                        if (this.pairs[e2.type] != undefined && inArr(e1.type, this.pairs[e2.type]))
-                            e2.collide(e1);
-                    }
+        return size;
+    }
+
+    constructor() {
+        super(SystemOrder.SPAWNERS);
     }
 }
 
-class World {
-    entities: Entity[] = [];
-    inputs: KeyboardState = [];
-    collisionHandler: CollisionHandler = new CollisionHandler();
-    scripts: {[name: string]: any} = [];
+class TrafficSystem extends System {
+    update(world: World, inputs: InputState) {
+        let boardWidth = world.properties.board.width;
 
-    pressKey(key: number) {
-        this.inputs[key] = true;
-    }
+        for(let e of world.query(Traffic, Velocity)) {
+            let velocity = e.get(Velocity);
+            e.move(velocity);
 
-    releaseKey(key: number) {
-        this.inputs[key] = false;
+            if((velocity.x > 0 && e.position.x > boardWidth + 1) || (velocity.x < 0 && e.position.x < -1 - e.width))
+                e.destroy();
+        }
     }
 
-    handleDeletions() {
-        for(let i = 0; i < this.entities.length; i++)
-            if(this.entities[i].markedForDeletion)
-                this.entities.splice(i--, 1);
+    constructor() {
+        super(SystemOrder.TRAFFIC);
     }
+}
 
-    step() {
-        for(let e of this.entities)
-            if(e.enabled)
-                e.step(this.inputs);
+// Keeps passengers on their carriers, slithering ones crawling up and down them
+class PassengerSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let e of world.query(Passenger)) {
+            let passenger = e.get(Passenger);
+            let carrier = passenger.carrier;
 
-        this.handleDeletions();
-    }
+            if(carrier.markedForDeletion) {
+                e.destroy();
+                continue;
+            }
 
-    handleComponents() {
-        for(let e of this.entities)
-            for(let c of e.components)
-                if(!(c instanceof Drawable))
-                    c.handle();
+            let slither = e.get(Slither);
+            if(slither) {
+                let end = carrier.width - e.width;
+                passenger.offset.x += slither.direction * slither.speed * world.timestep;
 
-        this.handleDeletions();
-    }
+                if(passenger.offset.x >= end || passenger.offset.x <= 0) {
+                    passenger.offset.x = Math.max(0, Math.min(end, passenger.offset.x));
+                    slither.direction = (passenger.offset.x >= end) ? -1 : 1;
+                }
 
-    handleCollisions() {
-        this.collisionHandler.handleCollisions(this.entities);
+                let head = e.get(DeadlyPart);
+                if(head)
+                    head.x = (slither.direction > 0) ? e.width - head.width : 0;
+            }
 
-        this.handleDeletions();
+            e.position.x = carrier.position.x + passenger.offset.x;
+            e.position.y = carrier.position.y + passenger.offset.y;
+            e.position.z = carrier.position.z + passenger.offset.z;
+        }
     }
 
-    draw() {
-        for(let e of this.entities)
-            for(let c of e.components)
-                if(c instanceof Drawable)
-                    c.handle();
-
-        renderer.render(scene, camera);
+    constructor() {
+        super(SystemOrder.PASSENGERS);
     }
 }
 
+// Sends flies and crocodile heads into free home bays, and the lady frog onto logs
+class VisitorSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let e of world.query(BayVisitor)) {
+            let visitor = e.get(BayVisitor);
+            visitor.timeLeft -= world.timestep;
 
-// GAME
+            if(visitor.timeLeft <= 0) {
+                visitor.bay.get(HomeBay).visitor = null;
+                e.destroy();
+            }
+        }
 
-function buildFrog(): Entity {
-    let frog: Entity = new Entity("frog", world, 1, 1, {x: 8, y: 0, z: 0});
+        for(let e of world.query(VisitorSpawner)) {
+            let spawner = e.get(VisitorSpawner);
+            spawner.timeToNext -= world.timestep;
 
-    frog.customStep = function(inputs: KeyboardState) {
-        if(this.properties.jumpDir != Direction.NONE) {
-            this.move();
+            if(spawner.timeToNext <= 0) {
+                spawner.timeToNext += world.random.int(VISITOR_INTERVAL[0], VISITOR_INTERVAL[1]);
 
-            this.properties.jumpProgress++;
-            this.position.z = Math.sin((this.properties.jumpProgress / this.properties.jumpSteps) * Math.PI) * 0.3;
+                let bays = world.query(HomeBay).filter((bay: Entity) => !bay.get(HomeBay).filled && !bay.get(HomeBay).visitor);
+                if(bays.length) {
+                    let bay = bays[world.random.int(0, bays.length - 1)];
+                    let kind = (world.random.next() < CROCODILE_VISIT_CHANCE) ? VisitorKind.CROCODILE : VisitorKind.FLY;
 
-            switch(this.properties.jumpDir) {
-                case Direction.UP:
-                    if(this.position.y >= this.properties.targetSquare.y) {
-                        this.position.y = this.properties.targetSquare.y;
-                        this.properties.jumpDir = Direction.NONE;
-                    }
-                    break;
-                case Direction.DOWN:
-                    if(this.position.y <= this.properties.targetSquare.y) {
-                        this.position.y = this.properties.targetSquare.y;
-                        this.properties.jumpDir = Direction.NONE;
-                    }
-                    break;
-                case Direction.LEFT:
-                    if(this.position.x <= this.properties.targetSquare.x) {
-                        this.position.x = this.properties.targetSquare.x;
-                        this.properties.jumpDir = Direction.NONE;
-                    }
-                    break;
-                case Direction.RIGHT:
-                    if(this.position.x >= this.properties.targetSquare.x) {
-                        this.position.x = this.properties.targetSquare.x;
-                        this.properties.jumpDir = Direction.NONE;
-                    }
+                    bay.get(HomeBay).visitor = buildBayVisitor(world, bay, kind);
+                    world.entities.push(bay.get(HomeBay).visitor);
+                }
             }
+        }
 
-            if(this.properties.jumpDir == Direction.NONE) {
-                this.velocity = {x: 0, y: 0, z: 0};
-                this.position.z = 0;
-            }
-        } else {
-            if(this.properties.markedForDeath && this.properties.passiveVelocity.x == 0 &&
-                this.properties.passiveVelocity.y == 0 && this.properties.passiveVelocity.z == 0) {
-                this.world.scripts.killFrog(this);
-                return;
-            }
+        for(let e of world.query(LadyFrogSpawner)) {
+            let spawner = e.get(LadyFrogSpawner);
+            spawner.timeToNext -= world.timestep;
 
-            this.move(this.properties.passiveVelocity);
+            if(spawner.timeToNext <= 0) {
+                spawner.timeToNext += world.random.int(LADY_FROG_INTERVAL[0], LADY_FROG_INTERVAL[1]);
 
-            let jump: boolean = false;
-            let curPos = this.getGridPos();
+                // on a log that is wholly on the board, so she doesn't drift straight off
+                let boardWidth = world.properties.board.width;
+                let logs = world.query(Log).filter((log: Entity) => log.position.x >= 0 && log.position.x + log.width <= boardWidth);
 
-            if(87 in inputs && inputs[87] && frog.position.y < 12) { // w
-                this.properties.jumpDir = Direction.UP;
-                this.velocity = {x: 0, y: this.properties.jumpSpeed, z: 0};
-                curPos.y++;
-                jump = true;
-            } else if(65 in inputs && inputs[65] && this.position.x > 0) { // a
-                this.properties.jumpDir = Direction.LEFT;
-                this.velocity = {x: -this.properties.jumpSpeed, y: 0, z: 0};
-                curPos.x--;
-                jump = true;
-            } else if(83 in inputs && inputs[83] && frog.position.y > 0) { // s
-                this.properties.jumpDir = Direction.DOWN;
-                this.velocity = {x: 0, y: -this.properties.jumpSpeed, z: 0};
-                curPos.y--;
-                jump = true;
-            } else if(68 in inputs && inputs[68] && this.position.x < 16) { // d
-                this.properties.jumpDir = Direction.RIGHT;
-                this.velocity = {x: this.properties.jumpSpeed, y: 0, z: 0};
-                curPos.x++;
-                jump = true;
+                if(logs.length && !world.query(LadyFrog).length) {
+                    let log = logs[world.random.int(0, logs.length - 1)];
+                    world.entities.push(buildLadyFrog(world, log, world.random.int(0, log.width - 1)));
+                }
             }
+        }
+    }
 
-            if(jump) {
-                this.properties.targetSquare = curPos;
-                this.properties.passiveVelocity = {x: 0, y: 0, z: 0};
-                this.properties.jumpSteps = 1 / this.properties.jumpSpeed;
-                this.properties.jumpProgress = 0;
+    constructor() {
+        super(SystemOrder.VISITORS);
+    }
+}
+
+// Sinks and raises turtles; their platform stops carrying riders while fully under water
+class DiveSystem extends System {
+    update(world: World, inputs: InputState) {
+        for(let e of world.query(Diver, Velocity, Platform)) {
+            let diver = e.get(Diver);
+            let velocity = e.get(Velocity);
+
+            if(diver.timeToSink > 0) {
+                diver.timeToSink -= world.timestep;
+
+                if(diver.timeToSink <= 0)
+                    velocity.z = (diver.state === DiveState.FLOATING) ? -diver.speed : diver.speed;
+            } else {
+                if(diver.state === DiveState.FLOATING && e.position.z < -2.01) {
+                    e.position.z = -2.01;
+                    velocity.z = 0;
+                    diver.state = DiveState.SUBMERGED;
+
+                    diver.timeToSink = diver.sinkPeriod;
+                } else if(diver.state === DiveState.SUBMERGED && e.position.z > -1) {
+                    e.position.z = -1;
+                    velocity.z = 0;
+                    diver.state = DiveState.FLOATING;
+
+                    diver.timeToSink = diver.sinkPeriod;
+                }
             }
+
+            e.get(Platform).afloat = !(diver.state === DiveState.SUBMERGED && velocity.z == 0);
         }
+    }
 
-        this.properties.markedForDeath = false;
-    };
+    constructor() {
+        super(SystemOrder.DIVERS);
+    }
+}
 
-    frog.customCollide = function(e: Entity) {
-        switch(e.type) {
-            // enemies/death zones
-            case "vehicle":
-            case "crocodile":
+// sends a hopping frog back to where the hop started, e.g. when it bumps into another frog
+function turnBack(frog: Entity) {
+    let hopper = frog.get(Hopper);
+    let velocity = frog.get(Velocity);
+
+    if(!hopper.hopping())
+        return;
+
+    hopper.jumpDir = OPPOSITE[hopper.jumpDir];
+    hopper.targetSquare = {x: hopper.origin.x, y: hopper.origin.y};
+    hopper.jumpProgress = hopper.jumpTime - hopper.jumpProgress;
+    velocity.x = -velocity.x;
+    velocity.y = -velocity.y;
+}
+
+function buildFrog(world: World, player: Player): Entity {
+    let start = player.start;
+    let frog: Entity = new Entity("frog", world, 1, 1, {x: start.x, y: start.y, z: 0});
+    let hudY = 5 + player.index * 40;
+
+    // contacts are tracked even mid-hop; whether they matter is decided on landing, except for hazards
+    frog.onCollisionEnter = function(e: Entity) {
+        if(e.has(Hazard)) {
+            if(inDeadlyPart(this, e))
                 this.world.scripts.killFrog(this);
+
+            return;
+        }
+
+        switch(e.collisionLayer) {
+            case CollisionLayer.WATER:
+                this.get(Rider).waterContacts++;
+                break;
+            case CollisionLayer.PLATFORM:
+                this.get(Rider).platforms.push(e);
+                this.onCollisionStay(e);
+                break;
+            case CollisionLayer.HOME:
+            case CollisionLayer.HEDGE:
+            case CollisionLayer.BONUS:
+                this.onCollisionStay(e);
                 break;
 
-            case "water":
-                if(this.properties.jumpDir == Direction.NONE)
-                    this.properties.markedForDeath = true;
+            // only reported if the level's collisions have frogs bump into each other
+            case CollisionLayer.FROG:
+                turnBack(this);
+        }
+    };
+
+    frog.onCollisionStay = function(e: Entity) {
+        // a hazard's deadly part, such as a snake's head, can move onto the frog after it touched the rest
+        if(e.has(Hazard)) {
+            if(e.has(DeadlyPart) && inDeadlyPart(this, e))
+                this.world.scripts.killFrog(this);
+
+            return;
+        }
+
+        if(this.get(Hopper).hopping())
+            return;
+
+        let center = this.getCenter();
+
+        switch(e.collisionLayer) {
+            case CollisionLayer.PLATFORM:
+                if(e === ridingPlatform(this) && !e.get(Platform).afloat)
+                    this.world.scripts.killFrog(this, DeathCause.DROWNED);
+                else if(e.has(DeadlyPart) && inDeadlyPart(this, e))
+                    this.world.scripts.killFrog(this);
 
                 break;
 
-            // platforms
-            case "log":
-                if(this.properties.jumpDir == Direction.NONE)
-                    this.properties.passiveVelocity = e.velocity;
+            case CollisionLayer.BONUS:
+                if(e.has(LadyFrog) && e.getBounds().contains(center.x, center.y))
+                    this.world.scripts.escortLadyFrog(this, e);
 
                 break;
-            case "turtle":
-                if(this.properties.jumpDir == Direction.NONE) {
-                    this.properties.passiveVelocity = e.velocity;
 
-                    if (e.properties.state === "submerged" && e.velocity.z == 0)
-                        this.world.scripts.killFrog(this);
-                }
+            // top row; the bay or hedge under the frog's center decides the outcome
+            case CollisionLayer.HOME:
+            case CollisionLayer.HEDGE:
+                if(!e.getBounds().contains(center.x, center.y))
+                    break;
+
+                let bay = e.get(HomeBay);
+                let visitor = bay && bay.visitor && bay.visitor.get(BayVisitor);
+                if(bay && !bay.filled && !(visitor && visitor.kind === VisitorKind.CROCODILE))
+                    this.world.scripts.reachHome(this, e);
+                else
+                    this.world.scripts.killFrog(this);
         }
     };
 
-    let vel: {x: number, y: number, z: number} = {x: 0, y: 0, z: 0};
-    let jumpDir: Direction = Direction.NONE;
-    let targetSquare: {x: number, y: number} = {x: 0, y: 0};
-    let lives: number = 3;
-
-    frog.properties = {passiveVelocity: vel, jumpDir: jumpDir, targetSquare: targetSquare, jumpSpeed: 0.07,
-        jumpSteps: 0, jumpProgress: 0, markedForDeath: false, lives: lives};
+    frog.onCollisionExit = function(e: Entity) {
+        switch(e.collisionLayer) {
+            case CollisionLayer.WATER:
+                this.get(Rider).waterContacts--;
+                break;
+            case CollisionLayer.PLATFORM:
+                let platforms: Entity[] = this.get(Rider).platforms;
+                platforms.splice(platforms.indexOf(e), 1);
+        }
+    };
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0x00FF00});
-    let mesh: Mesh = new Mesh(new CubeGeometry(frog.width, frog.height, 1), material);
-    mesh.scale.set(0.9, 0.9, 1);
-    let drawComp: Drawable = new Drawable(frog, renderer, scene, mesh);
-    frog.components.push(drawComp);
+    frog.add(player);
+    frog.add(new Hopper(4.2));
+    frog.add(new Rider());
+    frog.add(new Velocity());
+    frog.add(new Lives(3));
+    frog.add(new Score(start.y));
+    frog.add(new LifeTimer(world.properties.description.timeLimit));
+    frog.collisionLayer = CollisionLayer.FROG;
 
-    let livesDrawable: TextDrawable = new TextDrawable({x: 5, y: 5}, "test", "#FF0000");
-    frog.components.push(livesDrawable);
+    frog.add(world.presentation.createDrawable(frog, {model: "frog", color: PLAYER_COLORS[player.index], scale: {x: 0.9, y: 0.9, z: 1}}));
+    frog.add(world.presentation.createText({x: 5, y: hudY}, "", "#FFFFFF"));
+    frog.add(world.presentation.createBar({x: 5, y: hudY + 20}, 200, "#FFFF00"));
 
     return frog;
 }
 
-function buildLogBuilder(y: number, speed: number, direction: Direction): Entity {
-    let builder = new Entity("log builder", world, 0, 0, {x: 0, y: 0, z: 0});
+function buildSpawner(world: World, kind: LaneKind, y: number, speed: number, direction: Direction, gap: [number, number],
+                      sizes: [number, number]): Entity {
+    let builder = new Entity(kind + " builder", world, 0, 0, {x: 0, y: 0, z: 0});
     builder.solid = false;
 
-    builder.properties = {y: y, stepsToNext: Math.round(Math.random() * 30 * 5)};
+    builder.add(new Spawner(kind, y, speed, direction, gap, sizes, world.random.next() * 2.5));
+
+    return builder;
+}
+
+function buildLog(world: World, y: number, speed: number, direction: Direction, width: number): Entity {
+    let boardWidth = world.properties.board.width;
+    let log = world.spawn("log", width, 1, {x: (direction === Direction.RIGHT) ? -width : boardWidth, y: y, z: -1});
+    log.add(new Velocity((direction === Direction.RIGHT) ? speed : -speed));
+    log.add(new Platform());
+    log.add(new Log());
+    log.add(new Traffic());
+    log.collisionLayer = CollisionLayer.PLATFORM;
+
+    log.add(world.presentation.createDrawable(log, {model: "log", color: 0x614126, scale: {x: 1, y: 0.9, z: 1}}));
+
+    return log;
+}
+
+function buildTurtle(world: World, y: number, speed: number, direction: Direction, sinkPeriod: number): Entity {
+    let boardWidth = world.properties.board.width;
+    let turtle = world.spawn("turtle", 1, 1, {x: (direction === Direction.RIGHT) ? -1 : boardWidth, y: y, z: -1});
+    turtle.add(new Velocity((direction === Direction.RIGHT) ? speed : -speed));
+    turtle.add(new Platform());
+    turtle.add(new Diver(sinkPeriod, speed));
+    turtle.add(new Traffic());
+    turtle.collisionLayer = CollisionLayer.PLATFORM;
+
+    turtle.add(world.presentation.createDrawable(turtle, {model: "turtle", color: 0x006400, scale: {x: 0.9, y: 0.9, z: 1}}));
+
+    return turtle;
+}
+
+function buildVehicle(world: World, y: number, speed: number, direction: Direction, width: number): Entity {
+    let boardWidth = world.properties.board.width;
+    let vehicle = world.spawn("vehicle", width, 1, {x: (direction === Direction.RIGHT) ? -width : boardWidth, y: y, z: 0});
+    vehicle.add(new Velocity((direction === Direction.RIGHT) ? speed : -speed));
+    vehicle.add(new Traffic());
+    vehicle.add(new Hazard());
+    vehicle.collisionLayer = CollisionLayer.HAZARD;
+
+    vehicle.add(world.presentation.createDrawable(vehicle, {model: (width > 1) ? "truck" : "car", color: 0xb20000}));
+
+    return vehicle;
+}
 
-    builder.customStep = function(inputs: KeyboardState) {
-        if(--this.properties.stepsToNext <= 0) {
-            let log = buildLog(this.properties.y, speed, direction);
-            log.world.entities.push(log);
+// The platform a rider stands on: of those it overlaps, the one covering most of it, then the earliest built
+function ridingPlatform(rider: Entity): Entity {
+    let bounds = rider.getBounds();
+    let best: Entity = null;
+    let bestOverlap = 0;
 
-            let stepsPerBlock = 1 / Math.abs(log.velocity.x);
-            this.properties.stepsToNext = Math.round(stepsPerBlock * (log.width + 1 + Math.floor(Math.random() * 6)));
+    for(let platform of rider.get(Rider).platforms) {
+        let b = platform.getBounds();
+        let overlap = Math.min(bounds.x2, b.x2) - Math.max(bounds.x1, b.x1);
+
+        if(overlap > bestOverlap || (overlap == bestOverlap && best && platform.id < best.id)) {
+            best = platform;
+            bestOverlap = overlap;
         }
-    };
+    }
 
-    return builder;
+    return best;
 }
 
-function buildLog(y: number, speed: number, direction: Direction): Entity {
-    let width = 2 + Math.floor(Math.random() * 4);
-    let log = new Entity("log", world, width, 1, {x: (direction === Direction.RIGHT) ? -width : 17, y: y, z: -1});
-    log.velocity.x = (direction === Direction.RIGHT) ? speed : -speed;
+// whether the frog's center is in the deadly part of e, or e has no such part and is deadly all over
+function inDeadlyPart(frog: Entity, e: Entity): boolean {
+    let part = e.get(DeadlyPart);
+    let center = frog.getCenter();
 
-    log.customStep = function(inputs: KeyboardState) {
-        this.move();
+    return !part || part.bounds().contains(center.x, center.y);
+}
 
-        if((this.velocity.x > 0 && this.position.x > 18) || (this.velocity.x < 0 && this.position.x < -1 - this.width))
-            this.destroy();
-    };
+// Rideable like a log, but a frog landing on its head is eaten
+function buildCrocodile(world: World, y: number, speed: number, direction: Direction): Entity {
+    let boardWidth = world.properties.board.width;
+    let x = (direction === Direction.RIGHT) ? -CROCODILE_LENGTH : boardWidth;
+    let crocodile = new Entity("crocodile", world, CROCODILE_LENGTH, 1, {x: x, y: y, z: -1});
+    crocodile.add(new Velocity((direction === Direction.RIGHT) ? speed : -speed));
+    crocodile.add(new Platform());
+    crocodile.add(new DeadlyPart((direction === Direction.RIGHT) ? CROCODILE_LENGTH - 1 : 0, 1));
+    crocodile.add(new Traffic());
+    crocodile.collisionLayer = CollisionLayer.PLATFORM;
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0x614126});
-    let mesh: Mesh = new Mesh(new CubeGeometry(log.width, log.height, 1), material);
-    mesh.scale.set(1, 0.9, 1);
-    let drawComp: Drawable = new Drawable(log, renderer, scene, mesh);
-    log.components.push(drawComp);
+    crocodile.add(world.presentation.createDrawable(crocodile, {color: 0x2f4f2f, scale: {x: 1, y: 0.8, z: 1}}));
 
-    return log;
+    return crocodile;
 }
 
-function buildTurtleBuilder(y: number, speed: number, direction: Direction) : Entity {
-    let builder = new Entity("turtle builder", world, 0, 0, {x: 0, y: 0, z: 0});
-    builder.solid = false;
+// Crosses a safe row; only its head bites
+function buildSnake(world: World, y: number, speed: number, direction: Direction, width: number): Entity {
+    let boardWidth = world.properties.board.width;
+    let snake = new Entity("snake", world, width, 1, {x: (direction === Direction.RIGHT) ? -width : boardWidth, y: y, z: 0});
+    snake.add(new Velocity((direction === Direction.RIGHT) ? speed : -speed));
+    snake.add(new Hazard());
+    snake.add(new DeadlyPart((direction === Direction.RIGHT) ? width - 1 : 0, 1));
+    snake.add(new Traffic());
+    snake.collisionLayer = CollisionLayer.HAZARD;
 
-    builder.properties = {y: y, stepsToNext: Math.round(Math.random() * 30 * 5)};
+    snake.add(world.presentation.createDrawable(snake, {color: 0xc8b400, scale: {x: 1, y: 0.4, z: 0.4}}));
 
-    builder.customStep = function(inputs: KeyboardState) {
-        if(--this.properties.stepsToNext <= 0) {
-            let groupSize = 2 + Math.round(Math.random());
-            let sinkPeriod = 30 * (1 + Math.floor(Math.random() * 10));
+    return snake;
+}
 
-            for(let i = 0; i < groupSize; i++) {
-                var turtle = buildTurtle(this.properties.y, speed, direction, sinkPeriod);
-                turtle.position.x += (direction === Direction.RIGHT) ? -i : i;
-                turtle.world.entities.push(turtle);
-            }
+// A snake crawling up and down a log
+function buildLogSnake(world: World, log: Entity, speed: number): Entity {
+    let snake = new Entity("log snake", world, 2, 1, {x: log.position.x, y: log.position.y, z: log.position.z + 1});
+    snake.add(new Passenger(log, {x: 0, y: 0, z: 1}));
+    snake.add(new Slither(speed * 0.5));
+    snake.add(new Hazard());
+    snake.add(new DeadlyPart(1, 1));
+    snake.collisionLayer = CollisionLayer.HAZARD;
 
-            let stepsPerBlock = 1 / Math.abs(turtle.velocity.x);
-            this.properties.stepsToNext = Math.round(stepsPerBlock * (groupSize + 1 + Math.floor(Math.random() * 6)));
-        }
-    };
+    snake.add(world.presentation.createDrawable(snake, {color: 0xc8b400, scale: {x: 1, y: 0.4, z: 0.4}}));
+
+    return snake;
+}
+
+// Sits on a log until the frog lands on her, then rides the frog home for a bonus
+function buildLadyFrog(world: World, log: Entity, x: number): Entity {
+    let lady = new Entity("lady frog", world, 1, 1, {x: log.position.x + x, y: log.position.y, z: log.position.z + 1});
+    lady.add(new Passenger(log, {x: x, y: 0, z: 1}));
+    lady.add(new LadyFrog());
+    lady.collisionLayer = CollisionLayer.BONUS;
+
+    lady.add(world.presentation.createDrawable(lady, {model: "frog", color: 0xff69b4, scale: {x: 0.6, y: 0.6, z: 0.6}}));
+
+    return lady;
+}
+
+// Waits in a home bay for a while; the frog can't touch it, the bay decides what it does
+function buildBayVisitor(world: World, bay: Entity, kind: VisitorKind): Entity {
+    let fly = (kind === VisitorKind.FLY);
+    let visitor = new Entity(fly ? "fly" : "bay crocodile", world, 1, 1, {x: bay.position.x, y: bay.position.y, z: 0});
+    visitor.solid = false;
+
+    visitor.add(new BayVisitor(kind, bay, VISITOR_STAY));
+    visitor.add(world.presentation.createDrawable(visitor, fly ? {color: 0x111111, scale: {x: 0.4, y: 0.4, z: 0.4}} :
+        {color: 0x2f4f2f, scale: {x: 0.8, y: 0.8, z: 0.8}}));
+
+    return visitor;
+}
+
+function buildVisitorSpawner(world: World): Entity {
+    let builder = new Entity("visitor builder", world, 0, 0, {x: 0, y: 0, z: 0});
+    builder.solid = false;
+
+    builder.add(new VisitorSpawner(world.random.int(VISITOR_INTERVAL[0], VISITOR_INTERVAL[1])));
+    builder.add(new LadyFrogSpawner(world.random.int(LADY_FROG_INTERVAL[0], LADY_FROG_INTERVAL[1])));
 
     return builder;
 }
 
-function buildTurtle(y: number, speed: number, direction: Direction, sinkPeriod: number): Entity {
-    let turtle = new Entity("turtle", world, 1, 1, {x: (direction === Direction.RIGHT) ? -1 : 17, y: y, z: -1});
-    turtle.velocity.x = (direction === Direction.RIGHT) ? speed : -speed;
+function buildWater(world: World, x: number, y: number): Entity {
+    let water = new Entity("water", world, 1, 1, {x: x, y: y, z: -2});
+    water.collisionLayer = CollisionLayer.WATER;
 
-    turtle.properties = {state: "floating", sinkPeriod: sinkPeriod, stepsToSink: sinkPeriod};
+    water.add(world.presentation.createDrawable(water, {model: "water", color: 0x40a4df}));
 
-    turtle.customStep = function(inputs: KeyboardState) {
-        this.move();
+    return water;
+}
 
-        if(--this.properties.stepsToSink == 0)
-            this.velocity.z = (this.properties.state === "floating") ? -speed : speed;
+function buildRoad(world: World, x: number, y: number, width: number, height: number): Entity {
+    let road = new Entity("road", world, width, height, {x: x, y: y, z: -1});
 
-        if(this.properties.stepsToSink < 0) {
-            if(this.properties.state === "floating" && this.position.z < -2.01) {
-                this.position.z = -2.01;
-                this.velocity.z = 0;
-                this.properties.state = "submerged";
+    road.add(world.presentation.createDrawable(road, {model: "road", color: 0x939393}));
 
-                this.properties.stepsToSink = sinkPeriod;
-            } else if(this.properties.state === "submerged" && this.position.z > -1) {
-                this.position.z = -1;
-                this.velocity.z = 0;
-                this.properties.state = "floating";
+    return road;
+}
 
-                this.properties.stepsToSink = sinkPeriod;
-            }
-        }
+function buildHomeBay(world: World, x: number, y: number): Entity {
+    let bay = new Entity("home", world, 1, 1, {x: x, y: y, z: -1});
+    bay.collisionLayer = CollisionLayer.HOME;
 
-        if((this.velocity.x > 0 && this.position.x > 18) || (this.velocity.x < 0 && this.position.x < -2))
-            this.destroy();
-    };
+    bay.add(new HomeBay());
+    bay.add(world.presentation.createDrawable(bay, {color: 0x1f3d7a}));
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0x006400});
-    let mesh: Mesh = new Mesh(new CubeGeometry(turtle.width, turtle.height, 1), material);
-    mesh.scale.set(0.9, 0.9, 1);
-    let drawComp: Drawable = new Drawable(turtle, renderer, scene, mesh);
-    turtle.components.push(drawComp);
+    return bay;
+}
 
-    return turtle;
+function buildHedge(world: World, x: number, y: number, width: number): Entity {
+    let hedge = new Entity("hedge", world, width, 1, {x: x, y: y, z: 0});
+    hedge.collisionLayer = CollisionLayer.HEDGE;
+
+    hedge.add(world.presentation.createDrawable(hedge, {color: 0x2e5e1e}));
+
+    return hedge;
 }
 
-function buildVehicleBuilder(y: number, speed: number, direction: Direction): Entity {
-    let builder = new Entity("vehicle builder", world, 0, 0, {x: 0, y: 0, z: 0});
-    builder.solid = false;
+function buildFrogMarker(world: World, x: number, y: number): Entity {
+    let marker = new Entity("frog marker", world, 1, 1, {x: x, y: y, z: 0});
+    marker.solid = false;
 
-    builder.properties = {y: y, stepsToNext: Math.round(Math.random() * 30 * 5)};
+    marker.add(world.presentation.createDrawable(marker, {model: "frog", color: 0x00FF00, scale: {x: 0.6, y: 0.6, z: 0.6}}));
 
-    builder.customStep = function(inputs: KeyboardState) {
-        if(--this.properties.stepsToNext <= 0) {
-            var vehicle = buildVehicle(this.properties.y, speed, direction);
-            vehicle.world.entities.push(vehicle);
+    return marker;
+}
 
-            let stepsPerBlock = 1 / Math.abs(vehicle.velocity.x);
-            this.properties.stepsToNext = Math.round(stepsPerBlock * (3 + Math.floor(Math.random() * 6)));
-        }
-    };
+function levelSettings(level: number): {speedScale: number, gapReduction: number} {
+    return {speedScale: 1 + (level - 1) * 0.25, gapReduction: level - 1};
+}
+
+function buildLane(world: World, lane: LaneDescription, level: number): Entity {
+    let settings = levelSettings(level);
+    let speed = lane.speed * settings.speedScale;
+    let direction = (lane.direction === "right") ? Direction.RIGHT : Direction.LEFT;
+    let gap: [number, number] = [lane.gap[0], Math.max(lane.gap[0], lane.gap[1] - settings.gapReduction)];
+
+    let builder = buildSpawner(world, lane.kind, lane.row, speed, direction, gap, lane.sizes);
+    builder.get(Spawner).crocodileChance = lane.crocodileChance || 0;
+    builder.get(Spawner).snakeChance = lane.snakeChance || 0;
 
     return builder;
 }
 
-function buildVehicle(y: number, speed: number, direction: Direction): Entity {
-    let vehicle = new Entity("vehicle", world, 1, 1, {x: (direction === Direction.RIGHT) ? -1 : 17, y: y, z: 0});
-    vehicle.velocity.x = (direction === Direction.RIGHT) ? speed : -speed;
+function buildLanes(world: World, description: LevelDescription, level: number) {
+    for(let lane of description.lanes)
+        world.entities.push(buildLane(world, lane, level));
+}
 
-    vehicle.customStep = function(inputs: KeyboardState) {
-        this.move();
+function buildTerrain(world: World, description: LevelDescription) {
+    let width = description.board.width;
 
-        if((this.velocity.x > 0 && this.position.x > 18) || (this.velocity.x < 0 && this.position.x < -2))
-            this.destroy();
-    };
+    for(let y = 0; y < description.terrain.length; y++) {
+        let row = description.terrain[y];
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0xb20000});
-    let mesh: Mesh = new Mesh(new CubeGeometry(vehicle.width, vehicle.height, 1), material);
-    let drawComp: Drawable = new Drawable(vehicle, renderer, scene, mesh);
-    vehicle.components.push(drawComp);
+        if(row instanceof Array) {
+            buildTerrainTiles(world, row, y);
+            continue;
+        }
 
-    return vehicle;
+        switch(row) {
+            case "water":
+                for(let x = -1; x <= width; x++)
+                    world.entities.push(buildWater(world, x, y));
+
+                break;
+            case "road":
+                // adjacent road rows share one slab
+                if(y == 0 || description.terrain[y - 1] !== "road") {
+                    let height = 1;
+                    while(description.terrain[y + height] === "road")
+                        height++;
+
+                    world.entities.push(buildRoad(world, 0, y, width, height));
+                }
+
+                break;
+            case "home":
+                buildHomeRow(world, y, description.homeColumns, width);
+        }
+    }
 }
 
-function buildWater(x: number, y: number): Entity {
-    let water = new Entity("water", world, 1, 1, {x: x, y: y, z: -2});
+// a row of mixed tiles: water where it is, continued past the edges, and a road slab for each stretch of road
+function buildTerrainTiles(world: World, tiles: TerrainKind[], y: number) {
+    let width = tiles.length;
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0x40a4df});
-    let mesh: Mesh = new Mesh(new CubeGeometry(water.width, water.height, 1), material);
-    let drawComp: Drawable = new Drawable(water, renderer, scene, mesh);
-    water.components.push(drawComp);
+    for(let x = -1; x <= width; x++)
+        if(tiles[Math.max(0, Math.min(width - 1, x))] === "water")
+            world.entities.push(buildWater(world, x, y));
 
-    return water;
+    for(let x = 0; x < width; x++) {
+        if(tiles[x] !== "road" || (x > 0 && tiles[x - 1] === "road"))
+            continue;
+
+        let length = 1;
+        while(tiles[x + length] === "road")
+            length++;
+
+        world.entities.push(buildRoad(world, x, y, length, 1));
+    }
 }
 
-function buildRoad(x: number, y: number, width: number, height: number): Entity {
-    let road = new Entity("road", world, width, height, {x: x, y: y, z: -1});
+function buildHomeRow(world: World, y: number, columns: number[], width: number) {
+    let x = -1;
 
-    let material: MeshBasicMaterial = new MeshBasicMaterial({color: 0x939393});
-    let mesh: Mesh = new Mesh(new CubeGeometry(road.width, road.height, 1), material);
-    let drawComp: Drawable = new Drawable(road, renderer, scene, mesh);
-    road.components.push(drawComp);
+    for(let column of columns) {
+        if(column > x)
+            world.entities.push(buildHedge(world, x, y, column - x));
 
-    return road;
+        world.entities.push(buildHomeBay(world, column, y));
+        x = column + 1;
+    }
+
+    world.entities.push(buildHedge(world, x, y, width + 1 - x));
 }
 
-function buildCameraView(camera: PerspectiveCamera, follow: Entity): Entity {
-    let view = new Entity("camera view", world, 0, 0, {x: 0, y: 0, z: 0});
-    view.solid = false;
+// the lady frog riding on the frog, if any
+function escortedLadyFrog(frog: Entity): Entity {
+    for(let lady of frog.world.query(LadyFrog, Passenger))
+        if(lady.get(Passenger).carrier === frog)
+            return lady;
 
-    view.properties = {camera: camera, follow: follow};
+    return null;
+}
 
-    view.customStep = function(inputs: KeyboardState) {
-        let xAdj = (this.properties.follow.position.x - 8) * 0.45;
-        this.properties.camera.position.x = 8.5 + xAdj;
-        this.properties.camera.position.y = this.properties.follow.position.y - 7;
-        this.properties.camera.position.z = 6;
+// the first player's frog
+function findFrog(world: World): Entity {
+    for(let e of world.entities)
+        if(e.type === "frog")
+            return e;
 
-        this.properties.camera.lookAt(new Vector3(this.properties.camera.position.x, this.properties.camera.position.y + 7, 1));
-    };
+    return null;
+}
 
-    return view;
+// every player's frog, in player order, whether in play or not
+function findFrogs(world: World): Entity[] {
+    return world.entities.filter((e: Entity) => e.type === "frog");
 }
 
-const WIDTH = 640;
-const HEIGHT = 480;
+function playerStart(description: LevelDescription, index: number, players: number): {x: number, y: number} {
+    let x = description.frogStart.x + (index * 2 - (players - 1)) * PLAYER_SPACING / 2;
+
+    return {x: Math.max(0, Math.min(description.board.width - 1, x)), y: description.frogStart.y};
+}
 
-const FOV_ANGLE = 45;
+// destroys everything the lanes have spawned, and the spawners themselves
+function clearLanes(world: World) {
+    for(let e of world.entities)
+        if(e.has(Spawner) || e.has(Traffic) || e.has(Passenger) || e.has(BayVisitor))
+            e.destroy();
+
+    for(let bay of world.query(HomeBay))
+        bay.get(HomeBay).visitor = null;
+}
 
-let renderer: WebGLRenderer;
-let camera: PerspectiveCamera;
-let scene: Scene;
+// fills the home bays as homes says, by bay, marking each filled one with a frog
+function setHomes(world: World, homes: boolean[]) {
+    let bays = world.query(HomeBay);
 
-let world: World = new World();
+    for(let i = 0; i < bays.length; i++) {
+        let bay = bays[i].get(HomeBay);
 
-function buildWorld() {
-    world.scripts["gameOver"] = (self: World) => {
-        console.log("game over");
-        // TODO: game over
+        if(bay.marker)
+            bay.marker.destroy();
+
+        bay.filled = !!homes[i];
+        bay.marker = null;
+
+        if(bay.filled) {
+            bay.marker = buildFrogMarker(world, bays[i].position.x, bays[i].position.y);
+            world.entities.push(bay.marker);
+        }
+    }
+}
+
+// After a frog's turn ends, brings it or the other player's frog back, or ends the game with every player out
+function playOn(frog: Entity) {
+    let world = frog.world;
+    let next = world.scripts.nextPlayer(frog);
+
+    if(next) {
+        if(next !== frog)
+            world.scripts.switchPlayer(frog, next);
+
+        world.scripts.respawnFrog(next);
+    } else if(findFrogs(world).every((f: Entity) => f.get(Player).out)) {
+        world.emit(GameEvent.GAME_OVER);
+        world.scripts.gameOver(world);
+    }
+}
+
+// Returns the first frog; findFrogs has the rest. Player two's frog in an alternating game starts off sitting out.
+function loadLevel(world: World, description: LevelDescription, mode: GameMode = GameMode.SINGLE): Entity {
+    world.properties.level = 1;
+    world.properties.mode = mode;
+    world.properties.description = description;
+    world.properties.board = description.board;
+    world.properties.frogStart = description.frogStart;
+    world.properties.highScore = 0;
+
+    // every frog is out of play; hosts hook this to show or record the result
+    world.scripts.gameOver = (self: World) => {};
+
+    world.scripts.respawnFrog = (frog: Entity) => {
+        let start = frog.get(Player).start;
+
+        let velocity = frog.get(Velocity);
+        let timer = frog.get(LifeTimer);
+        let hopper = frog.get(Hopper);
+
+        frog.get(Score).furthestRow = start.y;
+        timer.remaining = timer.limit;
+        hopper.jumpDir = Direction.NONE;
+        hopper.bufferedDir = Direction.NONE;
+        velocity.x = velocity.y = velocity.z = 0;
+        frog.enabled = true;
+        frog.solid = true;
+        frog.warp({x: start.x, y: start.y, z: 0});
+        frog.world.collisionHandler.forget(frog);
     };
 
-    world.scripts["killFrog"] = (frog: Entity) => {
-        frog.properties.lives--;
-        frog.properties.markedForDeath = false;
-        frog.properties.jumpDir = Direction.NONE;
+    // takes the frog out of play; frogDied then brings it or the other player's frog back, or ends the game
+    world.scripts.killFrog = (frog: Entity, cause: DeathCause = DeathCause.SQUASHED) => {
+        let velocity = frog.get(Velocity);
 
-        if(frog.properties.lives >= 0) {
-            frog.position = {x: 8, y: 0, z: 0};
-            frog.properties.passiveVelocity = {x: 0, y: 0, z: 0};
-        } else {
-            frog.world.scripts.gameOver(frog.world);
+        frog.get(Lives).count--;
+        frog.world.emit(GameEvent.DIED, frog, cause);
+        frog.get(Hopper).jumpDir = Direction.NONE;
+        velocity.x = velocity.y = velocity.z = 0;
+        frog.enabled = false;
+        frog.solid = false;
+        frog.world.collisionHandler.forget(frog);
+
+        // she is lost along with the frog
+        let lady = escortedLadyFrog(frog);
+        if(lady)
+            lady.destroy();
+
+        frog.world.scripts.frogDied(frog);
+    };
+
+    world.scripts.frogDied = (frog: Entity) => {
+        let lives = frog.get(Lives);
+
+        if(lives.count < 0)
+            frog.get(Player).out = true;
+
+        playOn(frog);
+    };
+
+    // the frog to play on after this one dies: the other player's in an alternating game, if they have lives left
+    world.scripts.nextPlayer = (frog: Entity): Entity => {
+        let frogs = findFrogs(frog.world);
+
+        if(frog.world.properties.mode !== GameMode.ALTERNATING)
+            return frog.get(Player).out ? null : frog;
+
+        for(let i = 1; i <= frogs.length; i++) {
+            let next = frogs[(frogs.indexOf(frog) + i) % frogs.length];
+            if(!next.get(Player).out)
+                return next;
         }
+
+        return null;
     };
 
-    let frog: Entity = buildFrog();
-    world.entities.push(frog);
+    // puts away one player's homes and level for the other's
+    world.scripts.switchPlayer = (from: Entity, to: Entity) => {
+        let self = from.world;
+        let fromPlayer = from.get(Player);
+        let toPlayer = to.get(Player);
 
-    let logBuilder: Entity = buildLogBuilder(8, 0.02, Direction.RIGHT);
-    world.entities.push(logBuilder);
-    logBuilder = buildLogBuilder(9, 0.04, Direction.RIGHT);
-    world.entities.push(logBuilder);
-    logBuilder = buildLogBuilder(11, 0.03, Direction.RIGHT);
-    world.entities.push(logBuilder);
+        fromPlayer.level = self.properties.level;
+        fromPlayer.homes = self.query(HomeBay).map((bay: Entity) => bay.get(HomeBay).filled);
+        fromPlayer.waiting = true;
+        toPlayer.waiting = false;
 
-    let turtleBuilder: Entity = buildTurtleBuilder(7, 0.025, Direction.LEFT);
-    world.entities.push(turtleBuilder);
-    turtleBuilder = buildTurtleBuilder(10, 0.025, Direction.LEFT);
-    world.entities.push(turtleBuilder);
+        // kept off the board until its turn
+        from.warp({x: -10, y: fromPlayer.start.y, z: 0});
 
-    let vehicleBuilder: Entity = buildVehicleBuilder(1, 0.015, Direction.LEFT);
-    world.entities.push(vehicleBuilder);
-    vehicleBuilder = buildVehicleBuilder(2, 0.025, Direction.RIGHT);
-    world.entities.push(vehicleBuilder);
-    vehicleBuilder = buildVehicleBuilder(3, 0.03, Direction.LEFT);
-    world.entities.push(vehicleBuilder);
-    vehicleBuilder = buildVehicleBuilder(4, 0.025, Direction.RIGHT);
-    world.entities.push(vehicleBuilder);
-    vehicleBuilder = buildVehicleBuilder(5, 0.025, Direction.LEFT);
-    world.entities.push(vehicleBuilder);
+        if(toPlayer.level !== self.properties.level) {
+            self.properties.level = toPlayer.level;
+            clearLanes(self);
+            buildLanes(self, self.properties.description, self.properties.level);
+        }
 
-    for(let y = 7; y <= 11; y++)
-        for(let x = -1; x <= 17; x++)
-            world.entities.push(buildWater(x, y));
+        setHomes(self, toPlayer.homes);
+    };
 
-    let road = buildRoad(0, 1, 17, 5);
-    world.entities.push(road);
+    world.scripts.reachHome = (frog: Entity, e: Entity) => {
+        let bay = e.get(HomeBay);
+        let score = frog.get(Score);
 
-    let cameraView: Entity = buildCameraView(camera, frog);
-    world.entities.push(cameraView);
+        score.points += homeBonus(frog.get(LifeTimer).remaining);
 
-    world.collisionHandler.pairs["frog"] = ["vehicle", "crocodile", "water", "turtle", "log"];
-}
+        if(bay.visitor) {
+            score.points += POINTS_FLY; // crocodiles never let the frog this far
+            bay.visitor.destroy();
+            bay.visitor = null;
+        }
 
-function setup() {
-    renderer = new WebGLRenderer();
-    scene = new Scene();
-    camera = new PerspectiveCamera(FOV_ANGLE, WIDTH / HEIGHT, 0.1, 5000);
-    camera.position.x = 8.5;
-    camera.position.y = 6.5;
-    camera.position.z = 15;
+        let lady = escortedLadyFrog(frog);
+        if(lady) {
+            score.points += POINTS_LADY_FROG;
+            lady.destroy();
+        }
 
-    renderer.setSize(WIDTH, HEIGHT);
-    scene.add(camera);
+        bay.filled = true;
+        bay.marker = buildFrogMarker(frog.world, e.position.x, e.position.y);
+        frog.world.entities.push(bay.marker);
+        frog.world.emit(GameEvent.HOME, frog);
 
-    document.querySelector("body").appendChild(renderer.domElement);
+        frog.world.scripts.respawnFrog(frog);
 
-    document.onkeydown = function(event) {
-        world.pressKey(event.keyCode);
+        for(let home of frog.world.query(HomeBay))
+            if(!home.get(HomeBay).filled)
+                return;
+
+        frog.world.scripts.levelComplete(frog.world);
     };
 
-    document.onkeyup = function(event) {
-        world.releaseKey(event.keyCode);
+    // the lady frog leaves her log and rides on the frog
+    world.scripts.escortLadyFrog = (frog: Entity, lady: Entity) => {
+        lady.get(LadyFrog).escorted = true;
+        lady.get(Passenger).carrier = frog;
+        lady.get(Passenger).offset = {x: 0, y: 0, z: 0.3};
+        lady.solid = false;
     };
 
-    buildWorld();
-}
+    // clearing the level file's last level ends the game for the frogs in play, with a bonus for their spare lives
+    world.scripts.levelComplete = (self: World) => {
+        let levels = self.properties.description.levels;
 
-function worldLoop() {
-    world.step();
-    world.handleComponents();
-    world.handleCollisions();
-    world.draw();
+        if(levels && self.properties.level >= levels) {
+            let finished = findFrogs(self).filter((frog: Entity) => !frog.get(Player).out && !frog.get(Player).waiting);
 
-    requestAnimationFrame(worldLoop);
-}
+            for(let frog of finished) {
+                frog.get(Score).points += POINTS_PER_SPARE_LIFE * frog.get(Lives).count;
+                frog.get(Player).out = true;
+                frog.enabled = false;
+                frog.solid = false;
+                self.collisionHandler.forget(frog);
+            }
+
+            playOn(finished[0]);
+            return;
+        }
+
+        self.properties.level++;
+
+        clearLanes(self);
+        setHomes(self, []);
+        buildLanes(self, self.properties.description, self.properties.level);
+    };
+
+    world.addSystem(new RiderSystem());
+    world.addSystem(new FrogSystem());
+    world.addSystem(new TimerSystem());
+    world.addSystem(new ScoreSystem());
+    world.addSystem(new HudSystem());
+    world.addSystem(new SpawnerSystem());
+    world.addSystem(new TrafficSystem());
+    world.addSystem(new DiveSystem());
+    world.addSystem(new PassengerSystem());
+    world.addSystem(new VisitorSystem());
+
+    let players = GAME_MODE_PLAYERS[mode];
+
+    for(let i = 0; i < players; i++) {
+        let alternating = (mode === GameMode.ALTERNATING);
+        let start = alternating ? description.frogStart : playerStart(description, i, players);
+        let frog = buildFrog(world, new Player(i, PLAYER_MOVES[alternating ? 0 : i], start));
+        world.entities.push(frog);
+
+        if(alternating && i > 0) {
+            frog.get(Player).waiting = true;
+            frog.enabled = false;
+            frog.solid = false;
+            frog.warp({x: -10, y: start.y, z: 0});
+        }
+    }
 
-function main(): void {
-    setup();
+    buildLanes(world, description, world.properties.level);
+    buildTerrain(world, description);
+    world.entities.push(buildVisitorSpawner(world));
 
-    requestAnimationFrame(worldLoop);
-}
\ No newline at end of file
+    for(let layer in description.collisions) {
+        let mask = 0;
+        for(let other of description.collisions[layer])
+            mask |= COLLISION_LAYERS[other];
+
+        world.collisionHandler.setMask(COLLISION_LAYERS[layer], mask);
+    }
+
+    return findFrog(world);
+}
@@ -0,0 +1,44 @@
+///<reference path="game.ts"/>
+///<reference path="audio.ts"/>
+// HEADLESS
+//
+// Runs the game under Node with no WebGL or DOM. Node entry points reference this file and are
+// compiled into a single script, e.g. `tsc --outFile simulate.js simulate.ts`.
+
+declare var require: any;
+declare var process: any;
+
+function readLevel(path: string): LevelDescription {
+    let fs = require("fs");
+
+    return parseLevel(fs.readFileSync(path, "utf8"), path);
+}
+
+function createHeadlessWorld(description: LevelDescription, seed?: number, mode?: GameMode): World {
+    let world = new World(new NullPresentation(), seed);
+    loadLevel(world, description, mode);
+    connectAudio(world, new NullAudio());
+
+    return world;
+}
+
+class FileHighScoreStore implements HighScoreStore {
+    path: string;
+
+    load(): HighScore[] {
+        let fs = require("fs");
+
+        if(!fs.existsSync(this.path))
+            return [];
+
+        return JSON.parse(fs.readFileSync(this.path, "utf8"));
+    }
+
+    save(scores: HighScore[]) {
+        require("fs").writeFileSync(this.path, JSON.stringify(scores, null, 2));
+    }
+
+    constructor(path: string) {
+        this.path = path;
+    }
+}
@@ -0,0 +1,137 @@
+///<reference path="engine.ts"/>
+// INPUT
+
+enum Action {
+    MOVE_UP,
+    MOVE_DOWN,
+    MOVE_LEFT,
+    MOVE_RIGHT,
+    PAUSE,
+    P2_MOVE_UP,
+    P2_MOVE_DOWN,
+    P2_MOVE_LEFT,
+    P2_MOVE_RIGHT
+}
+
+const ACTIONS = [Action.MOVE_UP, Action.MOVE_DOWN, Action.MOVE_LEFT, Action.MOVE_RIGHT, Action.PAUSE,
+    Action.P2_MOVE_UP, Action.P2_MOVE_DOWN, Action.P2_MOVE_LEFT, Action.P2_MOVE_RIGHT];
+const ACTION_NAMES = ["Move Up", "Move Down", "Move Left", "Move Right", "Pause",
+    "P2 Move Up", "P2 Move Down", "P2 Move Left", "P2 Move Right"];
+
+// each player's move actions, in the order up, left, down, right
+const PLAYER_MOVES: Action[][] = [
+    [Action.MOVE_UP, Action.MOVE_LEFT, Action.MOVE_DOWN, Action.MOVE_RIGHT],
+    [Action.P2_MOVE_UP, Action.P2_MOVE_LEFT, Action.P2_MOVE_DOWN, Action.P2_MOVE_RIGHT]
+];
+
+// the given player's version of a first player move, e.g. for a second gamepad
+function forPlayer(action: Action, player: number): Action {
+    let move = PLAYER_MOVES[0].indexOf(action);
+
+    return (move >= 0 && player < PLAYER_MOVES.length) ? PLAYER_MOVES[player][move] : action;
+}
+
+const DEFAULT_KEY_BINDINGS: {[keyCode: number]: Action} = {
+    87: Action.MOVE_UP,    // w
+    38: Action.MOVE_UP,    // up arrow
+    83: Action.MOVE_DOWN,  // s
+    40: Action.MOVE_DOWN,  // down arrow
+    65: Action.MOVE_LEFT,  // a
+    37: Action.MOVE_LEFT,  // left arrow
+    68: Action.MOVE_RIGHT, // d
+    39: Action.MOVE_RIGHT, // right arrow
+    80: Action.PAUSE,      // p
+    27: Action.PAUSE,      // escape
+    73: Action.P2_MOVE_UP,    // i
+    75: Action.P2_MOVE_DOWN,  // k
+    74: Action.P2_MOVE_LEFT,  // j
+    76: Action.P2_MOVE_RIGHT  // l
+};
+
+class KeyBindings {
+    keys: {[keyCode: number]: Action} = {};
+
+    actionFor(keyCode: number): Action {
+        return this.keys.hasOwnProperty(keyCode.toString()) ? this.keys[keyCode] : null;
+    }
+
+    keysFor(action: Action): number[] {
+        return Object.keys(this.keys).filter((key: string) => this.keys[+key] === action).map((key: string) => +key);
+    }
+
+    // makes keyCode the only key for action
+    bind(action: Action, keyCode: number) {
+        for(let key of this.keysFor(action))
+            delete this.keys[key];
+
+        this.keys[keyCode] = action;
+    }
+
+    constructor(keys: {[keyCode: number]: Action} = DEFAULT_KEY_BINDINGS) {
+        for(let key in keys)
+            if(ACTIONS.indexOf(keys[key]) >= 0)
+                this.keys[+key] = keys[key];
+    }
+}
+
+// Merges what every input source holds into the actions the world ticks with. A press the game
+// states use up, such as pause, stays out of the world until it is released.
+class Controls {
+    onPress: (action: Action) => boolean = null; // returns true if it used the press up
+    private sources: {[source: string]: InputState} = {};
+    private swallowed: InputState = [];
+    private pulses: InputState = [];
+
+    isHeld(action: Action): boolean {
+        for(let source in this.sources)
+            if(this.sources[source][action])
+                return true;
+
+        return false;
+    }
+
+    press(source: string, action: Action) {
+        let wasHeld = this.isHeld(action);
+        (this.sources[source] || (this.sources[source] = []))[action] = true;
+
+        if(!wasHeld && this.onPress && this.onPress(action))
+            this.swallowed[action] = true;
+    }
+
+    release(source: string, action: Action) {
+        if(this.sources[source])
+            this.sources[source][action] = false;
+
+        if(!this.isHeld(action))
+            this.swallowed[action] = false;
+    }
+
+    // e.g. when the window loses focus and key releases would go unseen
+    releaseAll(source: string) {
+        for(let action of ACTIONS)
+            this.release(source, action);
+    }
+
+    // a press with no release of its own, e.g. a swipe; the world sees it held for one tick
+    pulse(source: string, action: Action) {
+        if(this.isHeld(action))
+            return;
+
+        if(this.onPress && this.onPress(action))
+            return;
+
+        this.pulses[action] = true;
+    }
+
+    // what the world should hold this tick
+    sample(): InputState {
+        let held: InputState = [];
+
+        for(let action of ACTIONS)
+            held[action] = (this.isHeld(action) && !this.swallowed[action]) || !!this.pulses[action];
+
+        this.pulses = [];
+
+        return held;
+    }
+}
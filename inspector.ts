@@ -0,0 +1,235 @@
+///<reference path="three.d.ts"/>
+///<reference path="debug.ts"/>
+// INSPECTOR
+//
+// The debug overlay draws every solid entity's bounds and this tick's collisions over the board, with a
+// panel of the frogs' state, entity counts and timing. The console beside it runs DevConsole commands.
+
+const LAYER_COLORS: {[layer: number]: number} = {
+    [CollisionLayer.FROG]: 0x00FF00,
+    [CollisionLayer.HAZARD]: 0xFF0000,
+    [CollisionLayer.WATER]: 0x0080FF,
+    [CollisionLayer.PLATFORM]: 0xFF8000,
+    [CollisionLayer.HOME]: 0x00FFFF,
+    [CollisionLayer.HEDGE]: 0x808080,
+    [CollisionLayer.BONUS]: 0xFF69B4
+};
+const CONTACT_COLORS: {[event: string]: number} = {enter: 0xFFFFFF, stay: 0xFFFF00, exit: 0xFF00FF};
+const MAX_LISTED_CONTACTS = 12;
+const TIMING_SMOOTHING = 0.1; // of each new frame's timing mixed into the shown averages
+
+class DebugOverlay {
+    visible: boolean = false;
+    private lines: THREE.LineSegments;
+    private geometry: THREE.BufferGeometry;
+    private positions: Float32Array = new Float32Array(0);
+    private colors: Float32Array = new Float32Array(0);
+    private count: number = 0; // vertices this frame
+    private panel: HTMLElement;
+    private timing = {frame: 0, step: 0, steps: 0, draw: 0}; // milliseconds, and ticks per frame
+
+    toggle() {
+        this.visible = !this.visible;
+        this.lines.visible = this.visible;
+        this.panel.style.display = this.visible ? "block" : "none";
+    }
+
+    // what the last frame took, in milliseconds, and how many ticks it ran
+    measure(frame: number, step: number, steps: number, draw: number) {
+        let timing = this.timing;
+
+        timing.frame += (frame - timing.frame) * TIMING_SMOOTHING;
+        timing.step += (step - timing.step) * TIMING_SMOOTHING;
+        timing.steps += (steps - timing.steps) * TIMING_SMOOTHING;
+        timing.draw += (draw - timing.draw) * TIMING_SMOOTHING;
+    }
+
+    // redraws the overlay for world as it will be drawn, alpha of the way into the next tick
+    update(world: World, alpha: number) {
+        world.collisionHandler.recording = this.visible;
+        if(!this.visible)
+            return;
+
+        this.count = 0;
+
+        for(let e of world.entities) {
+            if(!e.solid || e.markedForDeletion)
+                continue;
+
+            let p = e.interpolatedPosition(alpha);
+            let color = LAYER_COLORS[e.collisionLayer] || 0xFFFFFF;
+            let z = p.z + 0.05;
+
+            this.line(p.x, p.y, z, p.x + e.width, p.y, z, color);
+            this.line(p.x + e.width, p.y, z, p.x + e.width, p.y + e.height, z, color);
+            this.line(p.x + e.width, p.y + e.height, z, p.x, p.y + e.height, z, color);
+            this.line(p.x, p.y + e.height, z, p.x, p.y, z, color);
+        }
+
+        let contacts = world.collisionHandler.reported;
+
+        for(let contact of contacts) {
+            let from = this.center(contact.subject, alpha);
+            let to = this.center(contact.object, alpha);
+
+            this.line(from.x, from.y, from.z, to.x, to.y, to.z, CONTACT_COLORS[contact.event]);
+        }
+
+        this.geometry.setDrawRange(0, this.count);
+        (this.geometry.getAttribute("position") as THREE.BufferAttribute).needsUpdate = true;
+        (this.geometry.getAttribute("color") as THREE.BufferAttribute).needsUpdate = true;
+
+        this.describe(world, contacts);
+    }
+
+    private describe(world: World, contacts: CollisionReport[]) {
+        let timing = this.timing;
+        let text = ["frame " + world.frame + ": " + timing.frame.toFixed(1) + " ms, " + timing.steps.toFixed(1) +
+            " ticks taking " + timing.step.toFixed(2) + " ms, drawing " + timing.draw.toFixed(2) + " ms"];
+
+        for(let frog of findFrogs(world))
+            text.push("", ...describeFrog(frog));
+
+        text.push("", contacts.length + " collision events this tick");
+        for(let contact of contacts.slice(0, MAX_LISTED_CONTACTS))
+            text.push("  " + contact.event + " " + contact.subject.type + " " + contact.subject.id + " > " +
+                contact.object.type + " " + contact.object.id);
+
+        if(contacts.length > MAX_LISTED_CONTACTS)
+            text.push("  ...");
+
+        let counts = entityCounts(world);
+        text.push("", "entities");
+        for(let type of Object.keys(counts).sort())
+            text.push("  " + type + " " + counts[type]);
+
+        this.panel.textContent = text.join("\n");
+    }
+
+    private center(e: Entity, alpha: number): {x: number, y: number, z: number} {
+        let p = e.interpolatedPosition(alpha);
+
+        return {x: p.x + e.width / 2, y: p.y + e.height / 2, z: p.z + 0.1};
+    }
+
+    private line(x1: number, y1: number, z1: number, x2: number, y2: number, z2: number, color: number) {
+        if(this.count + 2 > this.positions.length / 3)
+            this.grow();
+
+        let c = new THREE.Color(color);
+        let i = this.count * 3;
+
+        this.positions.set([x1, y1, z1, x2, y2, z2], i);
+        this.colors.set([c.r, c.g, c.b, c.r, c.g, c.b], i);
+        this.count += 2;
+    }
+
+    // room for twice the vertices, keeping those added so far
+    private grow() {
+        let positions = new Float32Array(Math.max(1024, this.positions.length * 2));
+        let colors = new Float32Array(positions.length);
+
+        positions.set(this.positions);
+        colors.set(this.colors);
+        this.positions = positions;
+        this.colors = colors;
+
+        this.geometry.addAttribute("position", new THREE.BufferAttribute(positions, 3));
+        this.geometry.addAttribute("color", new THREE.BufferAttribute(colors, 3));
+    }
+
+    constructor(scene: Scene, parent: HTMLElement) {
+        this.geometry = new THREE.BufferGeometry();
+        this.grow();
+
+        this.lines = new THREE.LineSegments(this.geometry,
+            new THREE.LineBasicMaterial({vertexColors: THREE.VertexColors, depthTest: false}));
+        this.lines.frustumCulled = false;
+        this.lines.renderOrder = 1;
+        this.lines.visible = false;
+        scene.add(this.lines);
+
+        this.panel = document.createElement("div");
+        this.panel.style.position = "absolute";
+        this.panel.style.right = "5px";
+        this.panel.style.top = "5px";
+        this.panel.style.padding = "4px";
+        this.panel.style.background = "rgba(0, 0, 0, 0.6)";
+        this.panel.style.color = "#FFFFFF";
+        this.panel.style.font = "12px monospace";
+        this.panel.style.whiteSpace = "pre";
+        this.panel.style.pointerEvents = "none";
+        this.panel.style.display = "none";
+        parent.appendChild(this.panel);
+    }
+}
+
+// A line to type commands into over a log of what they printed
+class ConsoleView {
+    element: HTMLElement;
+    onCommand: (line: string) => string = null;
+    private log: HTMLElement;
+    private input: HTMLInputElement;
+
+    get visible(): boolean {
+        return this.element.style.display !== "none";
+    }
+
+    toggle() {
+        this.element.style.display = this.visible ? "none" : "block";
+
+        if(this.visible)
+            this.input.focus();
+        else
+            this.input.blur();
+    }
+
+    print(text: string) {
+        if(!text)
+            return;
+
+        this.log.textContent += text + "\n";
+        this.log.scrollTop = this.log.scrollHeight;
+    }
+
+    constructor(parent: HTMLElement, toggleKey: number) {
+        this.element = document.createElement("div");
+        this.element.style.position = "absolute";
+        this.element.style.left = this.element.style.bottom = "0px";
+        this.element.style.width = "100%";
+        this.element.style.background = "rgba(0, 0, 0, 0.8)";
+        this.element.style.font = "12px monospace";
+        this.element.style.display = "none";
+        parent.appendChild(this.element);
+
+        this.log = document.createElement("div");
+        this.log.style.maxHeight = "150px";
+        this.log.style.overflowY = "auto";
+        this.log.style.whiteSpace = "pre-wrap";
+        this.log.style.color = "#C0C0C0";
+        this.log.style.padding = "4px";
+        this.element.appendChild(this.log);
+
+        this.input = document.createElement("input");
+        this.input.style.width = "100%";
+        this.input.style.boxSizing = "border-box";
+        this.input.style.font = "inherit";
+        this.element.appendChild(this.input);
+
+        // keys typed here stay out of the game
+        this.input.onkeydown = (event: KeyboardEvent) => {
+            event.stopPropagation();
+
+            if(event.keyCode == toggleKey || event.keyCode == 27) { // escape
+                event.preventDefault();
+                this.toggle();
+            } else if(event.keyCode == 13) { // enter
+                this.print("> " + this.input.value);
+                if(this.onCommand)
+                    this.print(this.onCommand(this.input.value));
+
+                this.input.value = "";
+            }
+        };
+    }
+}
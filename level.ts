@@ -0,0 +1,241 @@
+// LEVEL FORMAT
+
+enum CollisionLayer {
+    FROG = 1,
+    HAZARD = 2,
+    WATER = 4,
+    PLATFORM = 8,
+    HOME = 16,
+    HEDGE = 32,
+    BONUS = 64
+}
+
+// names a level's "collisions" uses for the layers
+const COLLISION_LAYERS: {[name: string]: CollisionLayer} = {
+    frog: CollisionLayer.FROG,
+    hazard: CollisionLayer.HAZARD,
+    water: CollisionLayer.WATER,
+    platform: CollisionLayer.PLATFORM,
+    home: CollisionLayer.HOME,
+    hedge: CollisionLayer.HEDGE,
+    bonus: CollisionLayer.BONUS
+};
+
+type LaneKind = "log" | "turtle" | "vehicle" | "snake";
+type TerrainKind = "safe" | "road" | "water" | "home";
+type TerrainRow = TerrainKind | TerrainKind[]; // one kind for the whole row, or one per column
+
+interface LaneDescription {
+    kind: LaneKind;
+    row: number;
+    speed: number;           // tiles per second
+    direction: "left" | "right";
+    gap: [number, number];   // empty tiles between consecutive spawns, inclusive range
+    sizes: [number, number]; // log length, turtle group size, vehicle or snake length, inclusive range
+    crocodileChance?: number; // log lanes: chance each spawn is a crocodile instead
+    snakeChance?: number;     // log lanes: chance a log carries a snake
+}
+
+interface LevelDescription {
+    name: string;
+    board: {width: number, height: number};
+    terrain: TerrainRow[];  // one entry per row, bottom to top
+    homeColumns: number[];
+    frogStart: {x: number, y: number};
+    timeLimit: number;      // seconds each life has to reach a home bay
+    levels?: number;        // clearing this many ends the game; without it the game goes on until the frogs run out of lives
+    lanes: LaneDescription[];
+    collisions: {[layer: string]: string[]}; // layers each layer receives collision events from
+}
+
+const LANE_KINDS = ["log", "turtle", "vehicle", "snake"];
+const LANE_TERRAIN: {[kind: string]: TerrainKind} = {log: "water", turtle: "water", vehicle: "road", snake: "safe"};
+const TERRAIN_KINDS = ["safe", "road", "water", "home"];
+const TILE_TERRAIN_KINDS = ["safe", "road", "water"]; // home only comes as a whole row
+
+// the kind of each tile in a row of the given width
+function terrainTiles(row: TerrainRow, width: number): TerrainKind[] {
+    if(row instanceof Array)
+        return row.slice();
+
+    let tiles: TerrainKind[] = [];
+    for(let x = 0; x < width; x++)
+        tiles.push(row);
+
+    return tiles;
+}
+
+function validateLevel(data: any): string[] {
+    let errors: string[] = [];
+
+    function describe(value: any): string {
+        return (value === undefined) ? "nothing" : JSON.stringify(value);
+    }
+
+    function isInt(value: any): boolean {
+        return typeof value === "number" && Math.floor(value) === value;
+    }
+
+    function expect(path: string, ok: boolean, expected: string, value: any, got: string = describe(value)): boolean {
+        if(!ok)
+            errors.push(path + ": expected " + expected + ", got " + got);
+
+        return ok;
+    }
+
+    function expectRange(path: string, value: any, min: number): boolean {
+        if(!expect(path, value instanceof Array && value.length == 2 && isInt(value[0]) && isInt(value[1]),
+                "a [min, max] pair of integers", value))
+            return false;
+
+        return expect(path, value[0] >= min && value[0] <= value[1], "min >= " + min + " and min <= max", value);
+    }
+
+    if(!expect("level", typeof data === "object" && data !== null && !(data instanceof Array), "an object", data))
+        return errors;
+
+    expect("name", typeof data.name === "string", "a string", data.name);
+
+    let board = data.board;
+    let boardOk = expect("board", typeof board === "object" && board !== null, "an object", board) &&
+        expect("board.width", isInt(board.width) && board.width > 0, "a positive integer", board.width) &&
+        expect("board.height", isInt(board.height) && board.height > 1, "an integer greater than 1", board.height);
+
+    let inRow = (y: any) => isInt(y) && (!boardOk || (y >= 0 && y < board.height));
+    let inColumn = (x: any) => isInt(x) && (!boardOk || (x >= 0 && x < board.width));
+    let rowRange = boardOk ? "an integer from 0 to " + (board.height - 1) : "an integer";
+    let columnRange = boardOk ? "an integer from 0 to " + (board.width - 1) : "an integer";
+
+    if(expect("terrain", data.terrain instanceof Array, "an array of row kinds", data.terrain)) {
+        if(boardOk)
+            expect("terrain", data.terrain.length == board.height, board.height + " rows (board.height)",
+                data.terrain, data.terrain.length + " rows");
+
+        data.terrain.forEach((kind: any, i: number) => {
+            if(!(kind instanceof Array)) {
+                expect("terrain[" + i + "]", TERRAIN_KINDS.indexOf(kind) >= 0, "one of " + TERRAIN_KINDS.join(", ") +
+                    " or an array of tiles", kind);
+                return;
+            }
+
+            if(boardOk)
+                expect("terrain[" + i + "]", kind.length == board.width, board.width + " tiles (board.width)", kind,
+                    kind.length + " tiles");
+
+            kind.forEach((tile: any, x: number) => expect("terrain[" + i + "][" + x + "]",
+                TILE_TERRAIN_KINDS.indexOf(tile) >= 0, "one of " + TILE_TERRAIN_KINDS.join(", "), tile));
+        });
+
+        expect("terrain", data.terrain[data.terrain.length - 1] === "home", "the top row to be \"home\"",
+            data.terrain[data.terrain.length - 1]);
+    }
+
+    if(expect("homeColumns", data.homeColumns instanceof Array && data.homeColumns.length > 0,
+            "a non-empty array of columns", data.homeColumns))
+        data.homeColumns.forEach((x: any, i: number) => {
+            if(expect("homeColumns[" + i + "]", inColumn(x), columnRange, x) && i > 0)
+                expect("homeColumns[" + i + "]", x > data.homeColumns[i - 1], "columns in ascending order", x);
+        });
+
+    if(expect("frogStart", typeof data.frogStart === "object" && data.frogStart !== null, "an object", data.frogStart)) {
+        expect("frogStart.x", inColumn(data.frogStart.x), columnRange, data.frogStart.x);
+        expect("frogStart.y", inRow(data.frogStart.y), rowRange, data.frogStart.y);
+    }
+
+    expect("timeLimit", typeof data.timeLimit === "number" && data.timeLimit > 0, "a positive number of seconds",
+        data.timeLimit);
+
+    if(data.levels !== undefined)
+        expect("levels", isInt(data.levels) && data.levels > 0, "a positive integer", data.levels);
+
+    if(expect("lanes", data.lanes instanceof Array, "an array", data.lanes))
+        data.lanes.forEach((lane: any, i: number) => {
+            let path = "lanes[" + i + "]";
+
+            if(!expect(path, typeof lane === "object" && lane !== null, "an object", lane))
+                return;
+
+            expect(path + ".kind", LANE_KINDS.indexOf(lane.kind) >= 0, "one of " + LANE_KINDS.join(", "), lane.kind);
+            expect(path + ".row", inRow(lane.row), rowRange, lane.row);
+            expect(path + ".speed", typeof lane.speed === "number" && lane.speed > 0, "a positive number", lane.speed);
+            expect(path + ".direction", lane.direction === "left" || lane.direction === "right",
+                "\"left\" or \"right\"", lane.direction);
+            expectRange(path + ".gap", lane.gap, 0);
+            expectRange(path + ".sizes", lane.sizes, 1);
+
+            for(let chance of ["crocodileChance", "snakeChance"])
+                if(lane[chance] !== undefined && expect(path + "." + chance, lane.kind === "log", "only on log lanes",
+                        lane[chance], "a " + lane.kind + " lane"))
+                    expect(path + "." + chance, typeof lane[chance] === "number" && lane[chance] >= 0 && lane[chance] <= 1,
+                        "a number from 0 to 1", lane[chance]);
+
+            // rows of tiles may have safe ones among the lane's own, like islands in a river
+            if(data.terrain instanceof Array && inRow(lane.row) && LANE_KINDS.indexOf(lane.kind) >= 0) {
+                let terrain = LANE_TERRAIN[lane.kind];
+                let row = data.terrain[lane.row];
+                let ok = (row instanceof Array) ?
+                    row.indexOf(terrain) >= 0 && row.every((tile: any) => tile === terrain || tile === "safe") :
+                    row === terrain;
+
+                expect(path + ".row", ok, "a " + terrain + " row for a " + lane.kind + " lane", lane.row,
+                    "row " + lane.row + " (" + JSON.stringify(row) + ")");
+            }
+        });
+
+    let layerNames = "one of " + Object.keys(COLLISION_LAYERS).join(", ");
+
+    if(expect("collisions", typeof data.collisions === "object" && data.collisions !== null && !(data.collisions instanceof Array),
+            "an object mapping collision layers to arrays of layers", data.collisions))
+        for(let layer in data.collisions) {
+            let others = data.collisions[layer];
+
+            expect("collisions." + layer, COLLISION_LAYERS.hasOwnProperty(layer), "a key that is " + layerNames, layer);
+
+            if(expect("collisions." + layer, others instanceof Array, "an array of collision layers", others))
+                others.forEach((other: any, i: number) =>
+                    expect("collisions." + layer + "[" + i + "]", COLLISION_LAYERS.hasOwnProperty(other), layerNames, other));
+        }
+
+    return errors;
+}
+
+function parseLevel(json: string, source: string = "level"): LevelDescription {
+    let data: any;
+
+    try {
+        data = JSON.parse(json);
+    } catch(e) {
+        throw new Error(source + ": invalid JSON (" + e.message + ")");
+    }
+
+    let errors = validateLevel(data);
+    if(errors.length > 0)
+        throw new Error(source + ":\n  " + errors.join("\n  "));
+
+    return data;
+}
+
+// Calls back with the level, or onError with why it couldn't be fetched or isn't a valid level
+function loadLevelFile(url: string, callback: (level: LevelDescription) => void, onError: (error: Error) => void) {
+    let request = new XMLHttpRequest();
+
+    request.onload = () => {
+        let level: LevelDescription;
+
+        try {
+            if(request.status >= 400)
+                throw new Error(url + ": " + request.status + " " + request.statusText);
+
+            level = parseLevel(request.responseText, url);
+        } catch(e) {
+            onError(e);
+            return;
+        }
+
+        callback(level);
+    };
+    request.onerror = () => onError(new Error(url + ": couldn't be loaded"));
+
+    request.open("GET", url);
+    request.send();
+}
@@ -0,0 +1,364 @@
+///<reference path="three.d.ts"/>
+///<reference path="components.ts"/>
+// MODELS
+//
+// What each ModelSpec looks like in three.js. Models named in a manifest are loaded from three.js JSON
+// files; until one loads, or if it never does, the model is built from primitive shapes. Either way it
+// fits the entity's width and height and one unit of depth, centred on the entity like the plain cubes did.
+// Each look is built once; entities get clones sharing its geometries and materials.
+
+type ModelBuilder = (spec: ModelSpec, width: number, height: number) => THREE.Object3D;
+
+// called every frame, after the model is moved to where the entity is drawn
+type ModelAnimator = (model: THREE.Object3D, entity: Entity, alpha: number) => void;
+
+const DIVE_WARNING = 1; // seconds before a turtle dives that it starts changing colour
+
+class ModelRegistry {
+    private loaded: {[name: string]: THREE.Object3D} = {};
+    private builders: {[name: string]: ModelBuilder} = {};
+    private animators: {[name: string]: ModelAnimator} = {};
+    private prototypes: {[key: string]: THREE.Object3D} = {};
+
+    define(name: string, builder: ModelBuilder, animator: ModelAnimator = null) {
+        this.builders[name] = builder;
+        this.animators[name] = animator;
+    }
+
+    // used for entities built from now on, in place of the primitive shapes
+    register(name: string, model: THREE.Object3D) {
+        this.loaded[name] = model;
+
+        // clones already out still draw, as three.js uploads what they use again
+        for(let key in this.prototypes)
+            if(JSON.parse(key)[0] === name) {
+                disposePrototype(this.prototypes[key]);
+                delete this.prototypes[key];
+            }
+    }
+
+    // frees every look built so far; each is built again when next needed
+    dispose() {
+        for(let key in this.prototypes)
+            disposePrototype(this.prototypes[key]);
+
+        this.prototypes = {};
+    }
+
+    // Manifest is a JSON object of model names to file urls; anything missing keeps its fallback, as does
+    // everything if the manifest itself can't be loaded, which is passed to onError
+    loadManifest(url: string, onError: (error: Error) => void) {
+        let request = new XMLHttpRequest();
+
+        request.onload = () => {
+            let manifest: {[name: string]: string};
+
+            try {
+                if(request.status >= 400)
+                    throw new Error(request.status + " " + request.statusText);
+
+                manifest = JSON.parse(request.responseText);
+                if(!manifest || typeof manifest !== "object")
+                    throw new Error("expected an object of model names to files");
+            } catch(e) {
+                onError(new Error(url + ": " + e.message));
+                return;
+            }
+
+            let loader = new THREE.ObjectLoader();
+
+            for(let name in manifest)
+                loader.load(manifest[name], (model: THREE.Object3D) => this.register(name, model));
+        };
+        request.onerror = () => onError(new Error(url + ": couldn't be loaded"));
+
+        request.open("GET", url);
+        request.send();
+    }
+
+    // models created from equal keys look the same
+    key(spec: ModelSpec, width: number, height: number): string {
+        return JSON.stringify([spec.model, spec.color, spec.scale, spec.opacity, width, height]);
+    }
+
+    create(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+        let key = this.key(spec, width, height);
+
+        if(!this.prototypes[key])
+            this.prototypes[key] = this.build(spec, width, height);
+
+        let model = this.prototypes[key].clone();
+        model.userData.baseScale = model.scale.clone();
+
+        return model;
+    }
+
+    animator(spec: ModelSpec): ModelAnimator {
+        return (spec.model && this.animators[spec.model]) || null;
+    }
+
+    private build(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+        let model: THREE.Object3D;
+        let loaded = spec.model && this.loaded[spec.model];
+
+        if(loaded) {
+            model = loaded.clone();
+
+            let size = new THREE.Box3().setFromObject(loaded).getSize(new THREE.Vector3());
+            model.scale.set(width / (size.x || 1), height / (size.y || 1), 1 / (size.z || 1));
+        } else {
+            let builder = (spec.model && this.builders[spec.model]) || buildBoxModel;
+            model = builder(spec, width, height);
+        }
+
+        if(spec.scale)
+            model.scale.set(model.scale.x * spec.scale.x, model.scale.y * spec.scale.y, model.scale.z * spec.scale.z);
+
+        model.traverse((part: THREE.Object3D) => {
+            part.castShadow = true;
+            part.receiveShadow = true;
+        });
+
+        return model;
+    }
+}
+
+// Disposes what a clone doesn't share with its prototype: the materials animators gave it its own copies of
+function disposeModel(model: THREE.Object3D) {
+    model.traverse((part: THREE.Object3D) => {
+        if(part.userData.ownMaterial)
+            ((part as THREE.Mesh).material as THREE.Material).dispose();
+    });
+}
+
+// Disposes what a prototype's clones share: its geometries, materials and their textures
+function disposePrototype(model: THREE.Object3D) {
+    model.traverse((part: THREE.Object3D) => {
+        if(!(part instanceof THREE.Mesh))
+            return;
+
+        // loaded models may have a material per face group
+        let materials = ([] as THREE.Material[]).concat((part as THREE.Mesh).material as THREE.Material | THREE.Material[]);
+
+        (part as THREE.Mesh).geometry.dispose();
+        for(let material of materials) {
+            if(material instanceof THREE.MeshLambertMaterial && material.map)
+                material.map.dispose();
+            material.dispose();
+        }
+    });
+}
+
+function modelMaterial(spec: ModelSpec, color: number = spec.color, map: THREE.Texture = null): THREE.MeshLambertMaterial {
+    let material = new THREE.MeshLambertMaterial({color: color});
+
+    if(map)
+        material.map = map;
+
+    if(spec.opacity !== undefined) {
+        material.transparent = true;
+        material.opacity = spec.opacity;
+    }
+
+    return material;
+}
+
+function modelPart(geometry: THREE.Geometry, material: THREE.Material, x: number, y: number, z: number): THREE.Mesh {
+    let part = new THREE.Mesh(geometry, material);
+    part.position.set(x, y, z);
+
+    return part;
+}
+
+function buildBoxModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    return new THREE.Mesh(new THREE.CubeGeometry(width, height, 1), modelMaterial(spec));
+}
+
+function buildFrogModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    let frog = new THREE.Group();
+
+    let body = modelPart(new THREE.SphereGeometry(0.4, 12, 8), modelMaterial(spec), 0, 0, -0.25);
+    body.scale.set(width, height * 1.1, 0.6);
+    frog.add(body);
+
+    for(let side of [-1, 1]) {
+        frog.add(modelPart(new THREE.SphereGeometry(0.1, 8, 6), modelMaterial(spec, 0xFFFFFF), side * 0.18, 0.28, -0.05));
+        frog.add(modelPart(new THREE.SphereGeometry(0.14, 8, 6), modelMaterial(spec), side * 0.32, -0.25, -0.4));
+    }
+
+    return frog;
+}
+
+function buildCarModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    let car = new THREE.Group();
+
+    car.add(modelPart(new THREE.CubeGeometry(width * 0.9, height * 0.7, 0.35), modelMaterial(spec), 0, 0, -0.25));
+    car.add(modelPart(new THREE.CubeGeometry(width * 0.45, height * 0.6, 0.3), modelMaterial(spec, 0xDDDDFF), -width * 0.05, 0, 0.05));
+
+    for(let x of [-1, 1])
+        for(let y of [-1, 1])
+            car.add(modelPart(new THREE.CylinderGeometry(0.13, 0.13, 0.1, 10), modelMaterial(spec, 0x222222),
+                x * width * 0.3, y * height * 0.37, -0.37));
+
+    return car;
+}
+
+// the cab is at the +x end, which faceVelocity turns to the front
+function buildTruckModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    let truck = new THREE.Group();
+
+    truck.add(modelPart(new THREE.CubeGeometry(0.8, height * 0.75, 0.6), modelMaterial(spec), width / 2 - 0.45, 0, -0.15));
+    truck.add(modelPart(new THREE.CubeGeometry(width - 1, height * 0.8, 0.8), modelMaterial(spec, 0xCCCCCC), -0.45, 0, -0.05));
+
+    for(let x of [-0.4, 0.1, 0.4])
+        for(let y of [-1, 1])
+            truck.add(modelPart(new THREE.CylinderGeometry(0.15, 0.15, 0.1, 10), modelMaterial(spec, 0x222222),
+                x * width, y * height * 0.4, -0.38));
+
+    return truck;
+}
+
+function buildLogModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    let log = modelPart(new THREE.CylinderGeometry(height * 0.4, height * 0.4, width, 12), modelMaterial(spec), 0, 0, 0);
+    log.rotation.z = Math.PI / 2;
+
+    let group = new THREE.Group();
+    group.add(log);
+
+    return group;
+}
+
+function buildTurtleModel(spec: ModelSpec, width: number, height: number): THREE.Object3D {
+    let turtle = new THREE.Group();
+
+    let shell = modelPart(new THREE.SphereGeometry(0.42, 12, 8), modelMaterial(spec), 0, 0, -0.2);
+    shell.scale.set(width, height, 0.5);
+    turtle.add(shell);
+    turtle.add(modelPart(new THREE.SphereGeometry(0.13, 8, 6), modelMaterial(spec, 0x7a9a3a), width * 0.45, 0, -0.25));
+
+    return turtle;
+}
+
+// a flat tile whose texture is repeated once per square
+function texturedTile(texture: THREE.Texture): ModelBuilder {
+    return (spec: ModelSpec, width: number, height: number) => {
+        let map = texture.clone();
+        map.wrapS = map.wrapT = THREE.RepeatWrapping;
+        map.repeat.set(width, height);
+        map.needsUpdate = true;
+
+        return new THREE.Mesh(new THREE.CubeGeometry(width, height, 1), modelMaterial(spec, 0xFFFFFF, map));
+    };
+}
+
+function canvasTexture(paint: (context: CanvasRenderingContext2D, size: number) => void): THREE.Texture {
+    let canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 64;
+    paint(canvas.getContext("2d"), 64);
+
+    let texture = new THREE.Texture(canvas);
+    texture.needsUpdate = true;
+
+    return texture;
+}
+
+function waterTexture(): THREE.Texture {
+    return canvasTexture((context: CanvasRenderingContext2D, size: number) => {
+        context.fillStyle = "#40a4df";
+        context.fillRect(0, 0, size, size);
+        context.strokeStyle = "#7cc4ef";
+        context.lineWidth = 3;
+
+        for(let y = 8; y < size; y += 16) {
+            context.beginPath();
+            for(let x = 0; x <= size; x += 4)
+                context.lineTo(x, y + Math.sin(x / size * Math.PI * 2) * 3);
+            context.stroke();
+        }
+    });
+}
+
+function roadTexture(): THREE.Texture {
+    return canvasTexture((context: CanvasRenderingContext2D, size: number) => {
+        context.fillStyle = "#939393";
+        context.fillRect(0, 0, size, size);
+
+        // lane markings along the top of each row
+        context.fillStyle = "#EEEEEE";
+        context.fillRect(0, 0, size / 2, 3);
+    });
+}
+
+// turns a model built pointing along +x to face the way its entity moves
+function faceVelocity(model: THREE.Object3D, entity: Entity, alpha: number) {
+    let velocity = entity.get(Velocity);
+    if(velocity && velocity.x != 0)
+        model.rotation.z = (velocity.x < 0) ? Math.PI : 0;
+}
+
+// Stretches upwards and thins along the frog's hop arc, facing the way it hops
+function animateFrog(model: THREE.Object3D, entity: Entity, alpha: number) {
+    let hopper = entity.get(Hopper);
+    let base: THREE.Vector3 = model.userData.baseScale;
+    if(!hopper)
+        return;
+
+    let arc = 0;
+    if(hopper.hopping()) {
+        let progress = hopper.jumpProgress - (1 - alpha) * entity.world.timestep;
+        arc = Math.sin(Math.max(0, Math.min(1, progress / hopper.jumpTime)) * Math.PI);
+
+        let facing: {[direction: number]: number} = {
+            [Direction.UP]: 0, [Direction.LEFT]: Math.PI / 2, [Direction.DOWN]: Math.PI, [Direction.RIGHT]: -Math.PI / 2
+        };
+        model.rotation.z = facing[hopper.jumpDir];
+    }
+
+    model.scale.set(base.x * (1 - 0.15 * arc), base.y * (1 + 0.2 * arc), base.z * (1 + 0.4 * arc));
+}
+
+// Reddens as a dive nears, and fades while under water
+function animateTurtle(model: THREE.Object3D, entity: Entity, alpha: number) {
+    faceVelocity(model, entity, alpha);
+
+    let diver = entity.get(Diver);
+    if(!diver)
+        return;
+
+    let warning = (diver.state === DiveState.FLOATING && diver.timeToSink > 0 && diver.timeToSink < DIVE_WARNING) ?
+        1 - diver.timeToSink / DIVE_WARNING : 0;
+    let depth = Math.max(0, Math.min(1, -1 - entity.interpolatedPosition(alpha).z));
+
+    model.traverse((part: THREE.Object3D) => {
+        if(!(part instanceof THREE.Mesh))
+            return;
+
+        // its own material, as turtles change colour one by one
+        if(!part.userData.ownMaterial) {
+            (part as THREE.Mesh).material = ((part as THREE.Mesh).material as THREE.Material).clone();
+            part.userData.ownMaterial = true;
+            part.userData.color = ((part as THREE.Mesh).material as THREE.MeshLambertMaterial).color.clone();
+        }
+
+        let material = (part as THREE.Mesh).material as THREE.MeshLambertMaterial;
+
+        material.color.copy(part.userData.color).lerp(new THREE.Color(0xb03020), warning * 0.6);
+        material.transparent = true;
+        material.opacity = 1 - depth * 0.7;
+    });
+}
+
+function animateWater(model: THREE.Object3D, entity: Entity, alpha: number) {
+    let material = (model as THREE.Mesh).material as THREE.MeshLambertMaterial;
+    material.map.offset.x = ((entity.world.frame + alpha) * entity.world.timestep * 0.1) % 1;
+}
+
+function defineModels(models: ModelRegistry) {
+    models.define("frog", buildFrogModel, animateFrog);
+    models.define("car", buildCarModel, faceVelocity);
+    models.define("truck", buildTruckModel, faceVelocity);
+    models.define("log", buildLogModel);
+    models.define("turtle", buildTurtleModel, animateTurtle);
+    models.define("water", texturedTile(waterTexture()), animateWater);
+    models.define("road", texturedTile(roadTexture()));
+}
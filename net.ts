@@ -0,0 +1,324 @@
+///<reference path="replay.ts"/>
+// NETWORK
+//
+// Versus races over a relay: every player runs their own world from the same seed and level, and the
+// relay passes each player's inputs, positions and scores on to the others in their room. Opponents
+// show up as ghost frogs, interpolated between the position snapshots they send.
+
+const PROTOCOL_VERSION = 1;
+const ROOM_SIZE = 2;          // players in a race; it starts once the room is full
+const SNAPSHOT_INTERVAL = 3;  // ticks between position snapshots
+const GHOST_DELAY = 6;        // ticks ghosts are drawn behind, so there is usually a later snapshot to move towards
+
+// client to relay
+interface JoinMessage {
+    type: "join";
+    version: number;
+    room: string;
+    name: string;
+}
+
+// relay to client, in answer to a join
+interface WelcomeMessage {
+    type: "welcome";
+    id: number;
+    seed: number;
+    level: LevelDescription;
+    peers: {id: number, name: string}[]; // others already in the room
+}
+
+interface PeerMessage {
+    type: "joined" | "left";
+    id: number;
+    name: string;
+}
+
+interface StartMessage {
+    type: "start";
+}
+
+interface ErrorMessage {
+    type: "error";
+    message: string;
+}
+
+// sent by clients, and passed on by the relay with from set to the sender's id
+interface InputsMessage {
+    type: "inputs";
+    from?: number;
+    frame: number;
+    actions: Action[]; // held from this frame on, as in a replay
+}
+
+interface SnapshotMessage {
+    type: "snapshot";
+    from?: number;
+    frame: number;
+    x: number;
+    y: number;
+    z: number;
+}
+
+interface ScoreMessage {
+    type: "score";
+    from?: number;
+    frame: number;
+    points: number;
+    lives: number;
+    level: number;
+    over: boolean; // out of lives; this is the final score
+}
+
+type NetMessage = JoinMessage | WelcomeMessage | PeerMessage | StartMessage | ErrorMessage | InputsMessage |
+    SnapshotMessage | ScoreMessage;
+
+// An opponent's frog, drawn where their snapshots put it
+class Ghost extends Component {
+    peer: number;
+    name: string;
+    slot: number; // which line of the HUD shows it
+    inputs: InputsMessage = null; // what the opponent last said they hold; the snapshots are what move the ghost
+    snapshots: SnapshotMessage[] = [];
+    score: ScoreMessage = null;
+
+    constructor(peer: number, name: string, slot: number) {
+        super();
+
+        this.peer = peer;
+        this.name = name;
+        this.slot = slot;
+    }
+}
+
+// Moves ghosts between the two snapshots either side of GHOST_DELAY ticks ago, and shows their scores
+class GhostSystem extends System {
+    update(world: World, inputs: InputState) {
+        let frame = world.frame - GHOST_DELAY;
+
+        for(let e of world.query(Ghost)) {
+            let ghost = e.get(Ghost);
+            let snapshots = ghost.snapshots;
+
+            // only the latest snapshot at or before frame is still needed
+            while(snapshots.length > 1 && snapshots[1].frame <= frame)
+                snapshots.shift();
+
+            if(snapshots.length) {
+                let from = snapshots[0];
+                let to = snapshots[1] || from;
+                let t = (to.frame > from.frame) ? Math.max(0, Math.min(1, (frame - from.frame) / (to.frame - from.frame))) : 0;
+
+                e.position.x = from.x + (to.x - from.x) * t;
+                e.position.y = from.y + (to.y - from.y) * t;
+                e.position.z = from.z + (to.z - from.z) * t;
+            }
+
+            let text = e.get(TextDrawable);
+            let score = ghost.score;
+            if(text)
+                text.text = ghost.name + (!score ? "" : score.over ? "  FINISHED " + score.points :
+                    "  SCORE " + score.points + "  LIVES " + Math.max(0, score.lives) + "  LEVEL " + score.level);
+        }
+    }
+
+    constructor() {
+        super(SystemOrder.GHOSTS);
+    }
+}
+
+function validPeer(peer: {id?: unknown, name?: unknown}): boolean {
+    return !!peer && typeof peer.id === "number" && typeof peer.name === "string";
+}
+
+// Whether a message from the relay has the fields its type needs, so nothing done with it can throw or
+// put a ghost nowhere
+function validNetMessage(parsed: unknown): parsed is NetMessage {
+    let message = parsed as {[field: string]: unknown};
+    if(!message || typeof message !== "object")
+        return false;
+
+    let numbers = (...fields: string[]) => fields.every((field: string) =>
+        typeof message[field] === "number" && isFinite(message[field] as number));
+
+    switch(message.type) {
+        case "welcome":
+            return numbers("id", "seed") && validateLevel(message.level).length == 0;
+        case "joined":
+        case "left":
+            return validPeer(message);
+        case "start":
+            return true;
+        case "error":
+            return typeof message.message === "string";
+        case "inputs":
+            return numbers("from", "frame") && Array.isArray(message.actions) &&
+                message.actions.every((action: unknown) => typeof action === "number");
+        case "snapshot":
+            return numbers("from", "frame", "x", "y", "z");
+        case "score":
+            return numbers("from", "frame", "points", "lives", "level") && typeof message.over === "boolean";
+        default:
+            return false;
+    }
+}
+
+function buildGhostFrog(world: World, peer: number, name: string, slot: number): Entity {
+    let start = world.properties.frogStart;
+    let ghost = new Entity("ghost frog", world, 1, 1, {x: start.x, y: start.y, z: 0});
+    ghost.solid = false;
+
+    ghost.add(new Ghost(peer, name, slot));
+    ghost.add(world.presentation.createDrawable(ghost, {model: "frog", color: 0x00FF00, scale: {x: 0.9, y: 0.9, z: 1}, opacity: 0.4}));
+    ghost.add(world.presentation.createText({x: 400, y: 5 + slot * 20}, name, "#AAFFAA"));
+
+    return ghost;
+}
+
+// The client end of a race. It is given a function to send with and is passed what arrives, so it works
+// over a browser WebSocket or anything else that carries strings.
+class NetClient {
+    id: number = -1;
+    world: World = null;
+    onWelcome: (welcome: WelcomeMessage) => void = null; // should build the world from it and attach it
+    onStart: () => void = null;
+    onError: (message: string) => void = null;
+    private send: (data: string) => void;
+    private peers: {id: number, name: string}[] = [];
+    private ghosts: {[peer: number]: Entity} = {};
+    private lastActions: string = null;
+    private lastScore: string = null;
+
+    join(room: string, name: string) {
+        this.post({type: "join", version: PROTOCOL_VERSION, room: room, name: name});
+    }
+
+    // starts showing peers in world, and reporting its frog
+    attach(world: World) {
+        this.world = world;
+        world.addSystem(new GhostSystem());
+
+        for(let peer of this.peers)
+            this.addGhost(peer.id, peer.name);
+
+        let gameOver = world.scripts.gameOver;
+        world.scripts.gameOver = (self: World) => {
+            this.sendScore(true);
+            gameOver(self);
+        };
+    }
+
+    // call after each tick of the attached world with the inputs it was given
+    afterTick(inputs: InputState) {
+        let frame = this.world.frame - 1;
+        let actions = heldActions(inputs);
+        let frog = findFrog(this.world);
+
+        if(actions.join() !== this.lastActions) {
+            this.post({type: "inputs", frame: frame, actions: actions});
+            this.lastActions = actions.join();
+        }
+
+        if(frame % SNAPSHOT_INTERVAL == 0)
+            this.post({type: "snapshot", frame: frame, x: frog.position.x, y: frog.position.y, z: frog.position.z});
+
+        this.sendScore(false);
+    }
+
+    // anything that isn't a message the relay sends, with all it needs, is left out
+    receive(data: string) {
+        let message: unknown;
+
+        try {
+            message = JSON.parse(data);
+        } catch(e) {
+            return;
+        }
+
+        if(!validNetMessage(message))
+            return;
+
+        switch(message.type) {
+            case "welcome":
+                this.id = message.id;
+                this.peers = Array.isArray(message.peers) ? message.peers.filter(validPeer) : [];
+
+                if(this.onWelcome)
+                    this.onWelcome(message);
+
+                break;
+            case "joined":
+                this.peers.push({id: message.id, name: message.name});
+
+                if(this.world)
+                    this.addGhost(message.id, message.name);
+
+                break;
+            case "left":
+                let left = message.id;
+                this.peers = this.peers.filter((peer: {id: number, name: string}) => peer.id !== left);
+
+                if(this.ghosts[left]) {
+                    this.ghosts[left].destroy();
+                    delete this.ghosts[left];
+                }
+
+                break;
+            case "start":
+                if(this.onStart)
+                    this.onStart();
+
+                break;
+            case "error":
+                if(this.onError)
+                    this.onError(message.message);
+
+                break;
+            case "inputs":
+                if(this.ghosts[message.from])
+                    this.ghosts[message.from].get(Ghost).inputs = message;
+
+                break;
+            case "snapshot":
+                let ghost = this.ghosts[message.from];
+                if(ghost)
+                    ghost.get(Ghost).snapshots.push(message);
+
+                break;
+            case "score":
+                if(this.ghosts[message.from])
+                    this.ghosts[message.from].get(Ghost).score = message;
+        }
+    }
+
+    // only sent when something in it changes
+    private sendScore(over: boolean) {
+        let frog = findFrog(this.world);
+        let score: ScoreMessage = {type: "score", frame: this.world.frame, points: frog.get(Score).points,
+            lives: frog.get(Lives).count, level: this.world.properties.level, over: over};
+        let key = [score.points, score.lives, score.level, score.over].join();
+
+        if(key !== this.lastScore) {
+            this.post(score);
+            this.lastScore = key;
+        }
+    }
+
+    // on the first HUD line no other ghost is using
+    private addGhost(peer: number, name: string) {
+        let slots = Object.keys(this.ghosts).map((id: string) => this.ghosts[+id].get(Ghost).slot);
+        let slot = 0;
+        while(slots.indexOf(slot) >= 0)
+            slot++;
+
+        this.ghosts[peer] = buildGhostFrog(this.world, peer, name, slot);
+        this.world.entities.push(this.ghosts[peer]);
+    }
+
+    private post(message: NetMessage) {
+        this.send(JSON.stringify(message));
+    }
+
+    constructor(send: (data: string) => void) {
+        this.send = send;
+    }
+}
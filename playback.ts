@@ -0,0 +1,30 @@
+///<reference path="headless.ts"/>
+///<reference path="replay.ts"/>
+// Plays a replay file back headlessly and checks it reproduces the recorded frog positions and deaths:
+//   tsc --outFile playback.js playback.ts && node playback.js <replay file>
+
+function playback(args: string[]) {
+    if(args.length < 1) {
+        console.log("usage: node playback.js <replay file>");
+        process.exit(2);
+    }
+
+    let fs = require("fs");
+    let player = new ReplayPlayer(JSON.parse(fs.readFileSync(args[0], "utf8")));
+
+    while(!player.finished())
+        player.tick();
+
+    let frog = findFrog(player.world);
+    console.log(args[0] + ": seed " + player.replay.seed + ", " + player.world.frame + " frames, frog at (" +
+        frog.position.x + ", " + frog.position.y + ") with " + frog.get(Lives).count + " lives");
+
+    if(player.desyncs.length > 0) {
+        console.log("DESYNC (" + player.desyncs.length + "):\n  " + player.desyncs.slice(0, 20).join("\n  "));
+        process.exit(1);
+    }
+
+    console.log("OK: " + player.replay.trace.length + " trace events reproduced");
+}
+
+playback(process.argv.slice(2));
@@ -0,0 +1,311 @@
+///<reference path="headless.ts"/>
+///<reference path="net.ts"/>
+// A reference relay for versus races, serving WebSockets with nothing but Node's own modules:
+//   tsc --outFile relay.js relay.ts && node relay.js [port] [level file]
+// Clients join a room by name; once ROOM_SIZE players are in, it starts them all on the same seed and level
+// and passes whatever each sends on to the others.
+
+declare var Buffer: any;
+
+const RELAY_PORT = 8080;
+const MAX_PEER_NAME_LENGTH = 16;
+const MAX_MESSAGE_LENGTH = 65536; // bytes a client's message may take, over all its frames
+const CLOSE_TOO_BIG = 1009;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// The server end of a WebSocket on an upgraded socket, handling text messages, pings and closes
+class RelaySocket {
+    onMessage: (data: string) => void = null;
+    onClose: () => void = null;
+    private socket: any;
+    private buffer: any = Buffer.alloc(0);
+    private fragments: any[] = [];
+    private closing: boolean = false; // sent a close; anything more that comes in is ignored
+    private closed: boolean = false;
+
+    send(data: string) {
+        this.frame(0x1, Buffer.from(data, "utf8"));
+    }
+
+    // with a status code for why, if it isn't a normal close
+    close(code: number = 0) {
+        let payload = Buffer.alloc(code ? 2 : 0);
+        if(code)
+            payload.writeUInt16BE(code, 0);
+
+        this.frame(0x8, payload);
+        this.socket.end();
+        this.closing = true;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+    }
+
+    private frame(opcode: number, payload: any) {
+        if(this.closing || this.closed)
+            return;
+
+        let header: any;
+        if(payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if(payload.length < 65536) {
+            header = Buffer.from([0x80 | opcode, 126, 0, 0]);
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[0] = 0x80 | opcode;
+            header[1] = 127;
+            header.writeUInt32BE(payload.length, 6);
+        }
+
+        this.socket.write(Buffer.concat([header, payload]));
+    }
+
+    private receive(chunk: any) {
+        if(this.closing)
+            return;
+
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while(this.buffer.length >= 2) {
+            let fin = (this.buffer[0] & 0x80) != 0;
+            let opcode = this.buffer[0] & 0x0f;
+            let masked = (this.buffer[1] & 0x80) != 0;
+            let length = this.buffer[1] & 0x7f;
+            let offset = 2;
+
+            if(length == 126) {
+                if(this.buffer.length < 4)
+                    return;
+
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if(length == 127) {
+                if(this.buffer.length < 10)
+                    return;
+
+                // nothing sent here needs the high half
+                length = this.buffer.readUInt32BE(2) ? Infinity : this.buffer.readUInt32BE(6);
+                offset = 10;
+            }
+
+            // refused before waiting for the rest of it
+            let buffered = this.fragments.reduce((total: number, fragment: any) => total + fragment.length, 0);
+            if(buffered + length > MAX_MESSAGE_LENGTH) {
+                this.close(CLOSE_TOO_BIG);
+                return;
+            }
+
+            let mask = masked ? this.buffer.slice(offset, offset + 4) : null;
+            if(masked)
+                offset += 4;
+
+            if(this.buffer.length < offset + length)
+                return;
+
+            let payload = Buffer.from(this.buffer.slice(offset, offset + length));
+            this.buffer = this.buffer.slice(offset + length);
+
+            if(mask)
+                for(let i = 0; i < payload.length; i++)
+                    payload[i] ^= mask[i % 4];
+
+            switch(opcode) {
+                case 0x0: // continuation
+                case 0x1: // text
+                    this.fragments.push(payload);
+
+                    if(fin) {
+                        let data = Buffer.concat(this.fragments).toString("utf8");
+                        this.fragments = [];
+
+                        if(this.onMessage)
+                            this.onMessage(data);
+                    }
+
+                    break;
+                case 0x8:
+                    this.close();
+                    break;
+                case 0x9:
+                    this.frame(0xA, payload);
+            }
+        }
+    }
+
+    private end() {
+        if(this.closed)
+            return;
+
+        this.closed = true;
+
+        if(this.onClose)
+            this.onClose();
+    }
+
+    constructor(socket: any) {
+        this.socket = socket;
+
+        socket.on("data", (chunk: any) => this.receive(chunk));
+        socket.on("close", () => this.end());
+        socket.on("error", () => this.end());
+    }
+}
+
+interface RelayPeer {
+    id: number;
+    name: string;
+    socket: RelaySocket;
+    room: RelayRoom;
+}
+
+class RelayRoom {
+    name: string;
+    seed: number;
+    peers: RelayPeer[] = [];
+    started: boolean = false;
+
+    broadcast(message: NetMessage, except: RelayPeer = null) {
+        let data = JSON.stringify(message);
+
+        for(let peer of this.peers)
+            if(peer !== except)
+                peer.socket.send(data);
+    }
+
+    constructor(name: string, seed: number) {
+        this.name = name;
+        this.seed = seed;
+    }
+}
+
+class Relay {
+    level: LevelDescription;
+    private rooms: {[name: string]: RelayRoom} = {};
+    private nextPeerId: number = 1;
+
+    connect(socket: RelaySocket) {
+        let peer: RelayPeer = {id: this.nextPeerId++, name: "", socket: socket, room: null};
+
+        socket.onMessage = (data: string) => this.receive(peer, data);
+        socket.onClose = () => this.leave(peer);
+    }
+
+    private receive(peer: RelayPeer, data: string) {
+        let message: NetMessage;
+
+        try {
+            message = JSON.parse(data);
+        } catch(e) {
+            this.refuse(peer, "messages must be JSON");
+            return;
+        }
+
+        switch(message && message.type) {
+            case "join":
+                this.join(peer, message as JoinMessage);
+                break;
+            case "inputs":
+            case "snapshot":
+            case "score":
+                if(!peer.room) {
+                    this.refuse(peer, "join a room first");
+                    return;
+                }
+
+                (message as InputsMessage | SnapshotMessage | ScoreMessage).from = peer.id;
+                peer.room.broadcast(message, peer);
+                break;
+            default:
+                this.refuse(peer, "unexpected message " + JSON.stringify(message && message.type));
+        }
+    }
+
+    private join(peer: RelayPeer, join: JoinMessage) {
+        if(join.version !== PROTOCOL_VERSION) {
+            this.refuse(peer, "protocol version " + join.version + " isn't " + PROTOCOL_VERSION);
+            return;
+        }
+
+        if(peer.room) {
+            this.refuse(peer, "already in room " + peer.room.name);
+            return;
+        }
+
+        let name = String(join.room || "");
+        let room = this.rooms[name] || (this.rooms[name] = new RelayRoom(name, Random.newSeed()));
+
+        if(room.started || room.peers.length >= ROOM_SIZE) {
+            this.refuse(peer, "room " + name + " is full");
+            return;
+        }
+
+        peer.name = String(join.name || "player " + peer.id).slice(0, MAX_PEER_NAME_LENGTH);
+        peer.room = room;
+
+        peer.socket.send(JSON.stringify({type: "welcome", id: peer.id, seed: room.seed, level: this.level,
+            peers: room.peers.map((p: RelayPeer) => ({id: p.id, name: p.name}))}));
+        room.broadcast({type: "joined", id: peer.id, name: peer.name});
+        room.peers.push(peer);
+
+        console.log(peer.name + " joined room " + JSON.stringify(name) + " (" + room.peers.length + "/" + ROOM_SIZE + ")");
+
+        if(room.peers.length == ROOM_SIZE) {
+            room.started = true;
+            room.broadcast({type: "start"});
+        }
+    }
+
+    private leave(peer: RelayPeer) {
+        let room = peer.room;
+        if(!room)
+            return;
+
+        room.peers.splice(room.peers.indexOf(peer), 1);
+        room.broadcast({type: "left", id: peer.id, name: peer.name});
+
+        if(!room.peers.length)
+            delete this.rooms[room.name];
+
+        console.log(peer.name + " left room " + JSON.stringify(room.name));
+    }
+
+    private refuse(peer: RelayPeer, message: string) {
+        peer.socket.send(JSON.stringify({type: "error", message: message}));
+    }
+
+    constructor(level: LevelDescription) {
+        this.level = level;
+    }
+}
+
+function relay(args: string[]) {
+    let http = require("http");
+    let crypto = require("crypto");
+
+    let port = parseInt(args[0]) || RELAY_PORT;
+    let server = new Relay(readLevel(args[1] || "levels/classic.json"));
+
+    let httpServer = http.createServer((request: any, response: any) => {
+        response.writeHead(426, {"Content-Type": "text/plain"});
+        response.end("WebSocket only\n");
+    });
+
+    httpServer.on("upgrade", (request: any, socket: any) => {
+        let key = request.headers["sec-websocket-key"];
+
+        if(!key || String(request.headers["upgrade"]).toLowerCase() !== "websocket") {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return;
+        }
+
+        let accept = crypto.createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+        socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+            "Sec-WebSocket-Accept: " + accept + "\r\n\r\n");
+
+        server.connect(new RelaySocket(socket));
+    });
+
+    httpServer.listen(port, () => console.log("relay listening on ws://localhost:" + port));
+}
+
+relay(process.argv.slice(2));
@@ -0,0 +1,164 @@
+///<reference path="states.ts"/>
+// REPLAY
+
+const REPLAY_VERSION = 8;
+const CHECKPOINT_INTERVAL = 30;
+
+interface ReplayEvent {
+    frame: number;
+    kind: string; // "checkpoint" or "death"
+    player: number;
+    x: number;
+    y: number;
+    lives: number;
+}
+
+interface ReplayFile {
+    version: number;
+    seed: number;
+    tickRate: number;
+    level: LevelDescription;
+    mode: GameMode;
+    frames: number;
+    inputs: {frame: number, actions: Action[]}[]; // held actions, stored only on frames where they change
+    trace: ReplayEvent[];                         // frog state the playback has to reproduce exactly
+}
+
+function heldActions(inputs: InputState): Action[] {
+    let actions: Action[] = [];
+
+    for(let action in inputs)
+        if(inputs[action])
+            actions.push(+action);
+
+    return actions;
+}
+
+// Records frog deaths and periodic checkpoints of every frog for a world into a trace
+class ReplayTracer {
+    world: World;
+    trace: ReplayEvent[] = [];
+
+    event(kind: string, frog: Entity) {
+        this.trace.push({frame: this.world.frame, kind: kind, player: frog.get(Player).index, x: frog.position.x, y: frog.position.y,
+            lives: frog.get(Lives).count});
+    }
+
+    afterTick() {
+        if(this.world.frame % CHECKPOINT_INTERVAL == 0)
+            for(let frog of findFrogs(this.world))
+                this.event("checkpoint", frog);
+    }
+
+    constructor(world: World) {
+        this.world = world;
+
+        let killFrog = world.scripts.killFrog;
+        world.scripts.killFrog = (frog: Entity, cause?: DeathCause) => {
+            this.event("death", frog);
+            killFrog(frog, cause);
+        };
+    }
+}
+
+class ReplayRecorder {
+    world: World;
+    level: LevelDescription;
+    private tracer: ReplayTracer;
+    private inputs: {frame: number, actions: Action[]}[] = [];
+    private lastActions: string = "";
+
+    // captures the inputs for this frame and advances the world with them
+    tick(inputs: InputState = this.world.inputs) {
+        let actions = heldActions(inputs);
+        let held: InputState = [];
+        for(let action of actions)
+            held[action] = true;
+
+        if(actions.join() !== this.lastActions) {
+            this.inputs.push({frame: this.world.frame, actions: actions});
+            this.lastActions = actions.join();
+        }
+
+        this.world.tick(held);
+        this.tracer.afterTick();
+    }
+
+    save(): ReplayFile {
+        return {version: REPLAY_VERSION, seed: this.world.random.seed, tickRate: this.world.tickRate, level: this.level,
+            mode: this.world.properties.mode, frames: this.world.frame, inputs: this.inputs.slice(), trace: this.tracer.trace.slice()};
+    }
+
+    // world must be freshly loaded from level, before its first tick, and ticked only through this
+    // recorder by a GameFlow, as ReplayPlayer plays it back
+    constructor(world: World, level: LevelDescription) {
+        this.world = world;
+        this.level = level;
+        this.tracer = new ReplayTracer(world);
+    }
+}
+
+// Plays a replay through the same game states it was recorded in
+class ReplayPlayer {
+    replay: ReplayFile;
+    world: World;
+    flow: GameFlow;
+    desyncs: string[] = [];
+    private tracer: ReplayTracer;
+    private nextInput: number = 0;
+    private nextEvent: number = 0;
+    private inputs: InputState = [];
+
+    finished(): boolean {
+        return this.world.frame >= this.replay.frames || this.flow.over();
+    }
+
+    tick() {
+        let change = this.replay.inputs[this.nextInput];
+
+        if(change && change.frame == this.world.frame) {
+            this.inputs = [];
+            for(let action of change.actions)
+                this.inputs[action] = true;
+
+            this.nextInput++;
+        }
+
+        this.flow.tick(this.inputs);
+        this.verify();
+
+        if(this.finished() && this.nextEvent < this.replay.trace.length)
+            this.desyncs.push("frame " + this.world.frame + ": playback ended without " +
+                (this.replay.trace.length - this.nextEvent) + " recorded events, first " +
+                JSON.stringify(this.replay.trace[this.nextEvent]));
+    }
+
+    private verify() {
+        let trace = this.tracer.trace;
+
+        for(; this.nextEvent < trace.length; this.nextEvent++) {
+            let actual = trace[this.nextEvent];
+            let expected = this.replay.trace[this.nextEvent];
+
+            if(!expected || expected.frame !== actual.frame || expected.kind !== actual.kind ||
+                    expected.player !== actual.player || expected.x !== actual.x ||
+                    expected.y !== actual.y || expected.lives !== actual.lives)
+                this.desyncs.push("frame " + actual.frame + ": expected " + JSON.stringify(expected || null) +
+                    ", got " + JSON.stringify(actual));
+        }
+    }
+
+    constructor(replay: ReplayFile, presentation: Presentation = new NullPresentation()) {
+        if(replay.version !== REPLAY_VERSION)
+            throw new Error("unsupported replay version " + replay.version + " (expected " + REPLAY_VERSION + ")");
+
+        this.replay = replay;
+        this.world = new World(presentation, replay.seed, replay.tickRate);
+        loadLevel(this.world, replay.level, replay.mode);
+        this.tracer = new ReplayTracer(this.world);
+        this.flow = new GameFlow(this.world, (inputs: InputState) => {
+            this.world.tick(inputs);
+            this.tracer.afterTick();
+        });
+    }
+}
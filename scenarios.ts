@@ -0,0 +1,443 @@
+///<reference path="headless.ts"/>
+// Plays scripted scenarios on the classic board with its lanes taken away, each placing what it needs and
+// feeding the world inputs tick by tick, and checks how the frog comes out of them. Exits non-zero if any
+// fails, so it can run in CI; npm test builds and runs them:
+//   npm test [-- name filter]
+//   tsc --outFile scenarios.js scenarios.ts && node scenarios.js [name filter]
+
+const SCENARIO_LEVEL = "levels/classic.json";
+const HOP_TIMEOUT = 1; // seconds a hop may take to land
+
+// A world with nothing in it but the frogs and terrain, and what has happened in it so far
+class Scenario {
+    world: World;
+    frog: Entity;
+    deaths: DeathCause[] = [];
+    events: GameEvent[] = [];
+
+    // puts a frog down on a square, standing still, as if it had hopped its way there
+    put(x: number, y: number, frog: Entity = this.frog) {
+        frog.get(Hopper).jumpDir = Direction.NONE;
+        frog.get(Score).furthestRow = y;
+        frog.warp({x: x, y: y, z: 0});
+        this.world.collisionHandler.forget(frog);
+    }
+
+    // adds e, as built for its lane, at column x
+    place(e: Entity, x: number): Entity {
+        e.warp({x: x, y: e.position.y, z: e.position.z});
+        this.world.entities.push(e);
+
+        return e;
+    }
+
+    // one tick per entry, with those inputs held
+    play(inputs: InputState[]) {
+        for(let held of inputs)
+            this.world.tick(held);
+    }
+
+    // runs with nothing held for a number of seconds
+    wait(seconds: number) {
+        this.play(new Array(Math.round(seconds * this.world.tickRate)).fill([]));
+    }
+
+    // runs until done says so, for at most a number of seconds; whether it did
+    until(done: () => boolean, seconds: number): boolean {
+        for(let ticks = Math.round(seconds * this.world.tickRate); ticks > 0 && !done(); ticks--)
+            this.world.tick([]);
+
+        return done();
+    }
+
+    // taps the frog's player's version of a first player move, and lets the hop land
+    hop(move: Action, frog: Entity = this.frog) {
+        this.play([{[frog.get(Player).moves[PLAYER_MOVES[0].indexOf(move)]]: true}]);
+        this.until(() => !frog.get(Hopper).hopping(), HOP_TIMEOUT);
+    }
+
+    constructor(level: LevelDescription, mode: GameMode) {
+        this.world = createHeadlessWorld(level, 1, mode);
+        this.frog = findFrog(this.world);
+
+        // bay visitors and the lady frog only turn up where a scenario puts them
+        for(let e of this.world.query(VisitorSpawner))
+            e.destroy();
+
+        this.world.on(GameEvent.DIED, (frog: Entity, cause: DeathCause) => this.deaths.push(cause));
+        for(let event of [GameEvent.HOP, GameEvent.DIED, GameEvent.HOME, GameEvent.TIME_LOW, GameEvent.GAME_OVER])
+            this.world.on(event, () => this.events.push(event));
+    }
+}
+
+function check(ok: boolean, message: string) {
+    if(!ok)
+        throw new Error(message);
+}
+
+function near(a: number, b: number): boolean {
+    return Math.abs(a - b) < 1e-6;
+}
+
+function checkAt(frog: Entity, x: number, y: number) {
+    check(near(frog.position.x, x) && near(frog.position.y, y),
+        "expected the frog at " + x + ", " + y + ", it is at " + frog.position.x + ", " + frog.position.y);
+}
+
+function checkDeaths(s: Scenario, causes: DeathCause[]) {
+    check(s.deaths.join() === causes.join(), "expected deaths [" + causes.map((c: DeathCause) => DeathCause[c]).join(", ") +
+        "], got [" + s.deaths.map((c: DeathCause) => DeathCause[c]).join(", ") + "]");
+}
+
+// a log or turtle that stays put, so the frog can stand on the river
+function raft(s: Scenario, x: number, y: number, width: number = 1): Entity {
+    return s.place(buildLog(s.world, y, 0, Direction.RIGHT, width), x);
+}
+
+function bayAt(s: Scenario, x: number): Entity {
+    return s.world.query(HomeBay).filter((bay: Entity) => bay.position.x == x)[0];
+}
+
+// hops the frog up into a bay, returning what it scored beyond the points for the row and getting home
+function extraHomePoints(s: Scenario): number {
+    let before = s.frog.get(Score).points;
+    let bonus = 0;
+
+    s.world.on(GameEvent.HOME, (frog: Entity) => bonus = homeBonus(frog.get(LifeTimer).remaining));
+    s.hop(Action.MOVE_UP);
+
+    return s.frog.get(Score).points - before - POINTS_PER_ROW - bonus;
+}
+
+interface ScenarioCase {
+    name: string;
+    mode?: GameMode;
+    run: (s: Scenario) => void;
+}
+
+const SCENARIOS: ScenarioCase[] = [
+    // hazards
+    {name: "frog dies hopping into a lane 3 vehicle", run: (s: Scenario) => {
+        s.put(4, 2);
+        s.place(buildVehicle(s.world, 3, 0, Direction.LEFT, 1), 4);
+        s.hop(Action.MOVE_UP);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+        check(s.frog.get(Lives).count == 2, "expected a life lost");
+        checkAt(s.frog, 8, 0);
+    }},
+    {name: "frog dies when a vehicle drives into it", run: (s: Scenario) => {
+        s.put(4, 3);
+        s.place(buildVehicle(s.world, 3, 2, Direction.LEFT, 1), 8);
+        s.until(() => s.deaths.length > 0, 3);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+    {name: "frog survives landing on a snake's tail", run: (s: Scenario) => {
+        s.put(3, 5);
+        s.place(buildSnake(s.world, 6, 0, Direction.RIGHT, 2), 3);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.5);
+
+        checkDeaths(s, []);
+        checkAt(s.frog, 3, 6);
+    }},
+    {name: "frog dies landing on a snake's head", run: (s: Scenario) => {
+        s.put(4, 5);
+        s.place(buildSnake(s.world, 6, 0, Direction.RIGHT, 2), 3);
+        s.hop(Action.MOVE_UP);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+    {name: "frog dies when a log snake's head crawls onto it", run: (s: Scenario) => {
+        let log = raft(s, 2, 8, 4);
+        let snake = buildLogSnake(s.world, log, 2);
+        s.world.entities.push(snake);
+        s.put(5, 8);
+
+        s.until(() => snake.getBounds().x2 > 5.01, 2);
+        s.wait(0.05);
+        checkDeaths(s, []);
+
+        s.until(() => s.deaths.length > 0, 2);
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+
+    // the river
+    {name: "frog drowns hopping into open water", run: (s: Scenario) => {
+        s.put(8, 6);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        checkDeaths(s, [DeathCause.DROWNED]);
+    }},
+    {name: "frog rides a log at row 8 and is carried 2 tiles", run: (s: Scenario) => {
+        raft(s, 5, 7);
+        s.put(5, 7);
+        s.place(buildLog(s.world, 8, 1, Direction.RIGHT, 4), 3);
+        s.hop(Action.MOVE_UP);
+
+        checkAt(s.frog, 5, 8);
+        s.wait(2);
+
+        checkDeaths(s, []);
+        checkAt(s.frog, 7, 8);
+    }},
+    {name: "frog drowns when carried off the side of the board", run: (s: Scenario) => {
+        s.place(buildLog(s.world, 8, 3, Direction.RIGHT, 3), 13);
+        s.put(15, 8);
+        s.until(() => s.deaths.length > 0, 2);
+
+        checkDeaths(s, [DeathCause.DROWNED]);
+    }},
+    {name: "frog leaving the river stops counting water and platforms", run: (s: Scenario) => {
+        raft(s, 5, 7);
+        s.put(5, 7);
+        s.wait(0.1);
+        check(s.frog.get(Rider).waterContacts == 1 && s.frog.get(Rider).platforms.length == 1,
+            "expected the frog on a log in the water");
+
+        s.hop(Action.MOVE_DOWN);
+        s.wait(1);
+
+        checkDeaths(s, []);
+        check(s.frog.get(Rider).waterContacts == 0 && s.frog.get(Rider).platforms.length == 0,
+            "expected no water or platforms under the frog");
+    }},
+    {name: "frog stays up on a diving turtle until it is under", run: (s: Scenario) => {
+        let turtle = s.place(buildTurtle(s.world, 7, 0, Direction.LEFT, 1), 5);
+        turtle.get(Diver).speed = 1.5;
+        s.put(5, 7);
+
+        s.until(() => turtle.get(Velocity).z < 0, 2);
+        s.wait(0.3);
+        checkDeaths(s, []);
+
+        s.until(() => s.deaths.length > 0, 2);
+        checkDeaths(s, [DeathCause.DROWNED]);
+        check(turtle.get(Diver).state === DiveState.SUBMERGED, "expected the turtle under water");
+    }},
+    {name: "frog hopping off a diving turtle in time survives", run: (s: Scenario) => {
+        let turtle = s.place(buildTurtle(s.world, 7, 0, Direction.LEFT, 1), 5);
+        turtle.get(Diver).speed = 1.5;
+        s.put(5, 7);
+
+        s.until(() => turtle.get(Velocity).z < 0, 2);
+        s.hop(Action.MOVE_DOWN);
+        s.wait(3);
+
+        checkDeaths(s, []);
+    }},
+    {name: "frog rides a crocodile's back", run: (s: Scenario) => {
+        raft(s, 3, 7);
+        s.put(3, 7);
+        s.place(buildCrocodile(s.world, 8, 0, Direction.RIGHT), 3);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.5);
+
+        checkDeaths(s, []);
+    }},
+    {name: "frog dies landing on a crocodile's head", run: (s: Scenario) => {
+        raft(s, 5, 7);
+        s.put(5, 7);
+        s.place(buildCrocodile(s.world, 8, 0, Direction.RIGHT), 3);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+
+    // the home row
+    {name: "frog reaching a free bay fills it and starts again", run: (s: Scenario) => {
+        raft(s, 5, 11);
+        s.put(5, 11);
+        s.hop(Action.MOVE_UP);
+
+        check(bayAt(s, 5).get(HomeBay).filled, "expected the bay filled");
+        check(s.events.indexOf(GameEvent.HOME) >= 0, "expected a HOME event");
+        checkAt(s.frog, 8, 0);
+        checkDeaths(s, []);
+    }},
+    {name: "frog dies in a filled bay", run: (s: Scenario) => {
+        setHomes(s.world, [false, true]);
+        raft(s, 5, 11);
+        s.put(5, 11);
+        s.hop(Action.MOVE_UP);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+    {name: "frog dies in a bay with a crocodile in it", run: (s: Scenario) => {
+        let bay = bayAt(s, 5);
+        bay.get(HomeBay).visitor = buildBayVisitor(s.world, bay, VisitorKind.CROCODILE);
+        s.world.entities.push(bay.get(HomeBay).visitor);
+        raft(s, 5, 11);
+        s.put(5, 11);
+        s.hop(Action.MOVE_UP);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+    {name: "frog eats the fly in a bay", run: (s: Scenario) => {
+        let bay = bayAt(s, 5);
+        bay.get(HomeBay).visitor = buildBayVisitor(s.world, bay, VisitorKind.FLY);
+        s.world.entities.push(bay.get(HomeBay).visitor);
+        raft(s, 5, 11);
+        s.put(5, 11);
+
+        let extra = extraHomePoints(s);
+        check(extra == POINTS_FLY, "expected " + POINTS_FLY + " points for the fly, got " + extra);
+        check(!bay.get(HomeBay).visitor, "expected the fly gone");
+    }},
+    {name: "frog dies against the hedge", run: (s: Scenario) => {
+        raft(s, 4, 11);
+        s.put(4, 11);
+        s.hop(Action.MOVE_UP);
+
+        checkDeaths(s, [DeathCause.SQUASHED]);
+    }},
+    {name: "filling the last bay completes the level", run: (s: Scenario) => {
+        setHomes(s.world, [true, true, false, true, true]);
+        raft(s, 8, 11);
+        s.put(8, 11);
+        s.hop(Action.MOVE_UP);
+
+        check(s.world.properties.level == 2, "expected level 2, got " + s.world.properties.level);
+        check(s.world.query(HomeBay).every((bay: Entity) => !bay.get(HomeBay).filled), "expected the bays emptied");
+    }},
+
+    // the lady frog
+    {name: "frog picks up the lady frog and brings her home", run: (s: Scenario) => {
+        raft(s, 5, 10);
+        let log = raft(s, 4, 11, 3);
+        let lady = buildLadyFrog(s.world, log, 1);
+        s.world.entities.push(lady);
+        s.put(5, 10);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        check(lady.get(LadyFrog).escorted, "expected the lady frog riding the frog");
+
+        let extra = extraHomePoints(s);
+        check(extra == POINTS_LADY_FROG, "expected " + POINTS_LADY_FROG + " points for the lady frog, got " + extra);
+        check(lady.markedForDeletion, "expected the lady frog gone");
+    }},
+    {name: "the lady frog is lost with the frog", run: (s: Scenario) => {
+        let log = raft(s, 4, 11, 3);
+        let lady = buildLadyFrog(s.world, log, 1);
+        s.world.entities.push(lady);
+        s.put(5, 11);
+        s.wait(0.1);
+        check(lady.get(LadyFrog).escorted, "expected the lady frog riding the frog");
+
+        s.hop(Action.MOVE_LEFT);
+        s.hop(Action.MOVE_LEFT);
+        s.wait(0.1);
+
+        checkDeaths(s, [DeathCause.DROWNED]);
+        check(lady.markedForDeletion, "expected the lady frog gone");
+    }},
+
+    // lives, time and players
+    {name: "frog runs out of time", run: (s: Scenario) => {
+        s.put(8, 6);
+        s.until(() => s.deaths.length > 0, s.frog.get(LifeTimer).limit + 1);
+
+        checkDeaths(s, [DeathCause.TIME_UP]);
+        check(s.events.indexOf(GameEvent.TIME_LOW) >= 0 && s.events.indexOf(GameEvent.TIME_LOW) < s.events.indexOf(GameEvent.DIED),
+            "expected a TIME_LOW warning before dying");
+        check(near(s.frog.get(LifeTimer).remaining, s.frog.get(LifeTimer).limit), "expected the timer reset");
+    }},
+    {name: "losing the last life ends the game", run: (s: Scenario) => {
+        let over = false;
+        s.world.scripts.gameOver = () => over = true;
+        s.frog.get(Lives).count = 0;
+        s.put(8, 6);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        check(s.frog.get(Player).out, "expected the player out");
+        check(over && s.events.indexOf(GameEvent.GAME_OVER) >= 0, "expected the game over");
+    }},
+    {name: "clearing the last level ends the game with a bonus for each spare life", run: (s: Scenario) => {
+        let over = false;
+        s.world.scripts.gameOver = () => over = true;
+
+        // a copy, as every scenario plays the same level
+        let description: LevelDescription = JSON.parse(JSON.stringify(s.world.properties.description));
+        description.levels = 1;
+        s.world.properties.description = description;
+
+        setHomes(s.world, [true, true, false, true, true]);
+        s.frog.get(Lives).count = 2;
+        raft(s, 8, 11);
+        s.put(8, 11);
+
+        let extra = extraHomePoints(s);
+        check(extra == 2 * POINTS_PER_SPARE_LIFE, "expected " + 2 * POINTS_PER_SPARE_LIFE + " points for 2 spare lives, got " + extra);
+        check(s.frog.get(Player).out && !s.frog.enabled, "expected the frog out of play");
+        check(over && s.events.indexOf(GameEvent.GAME_OVER) >= 0, "expected the game over");
+        check(s.world.properties.level == 1, "expected no next level");
+    }},
+    {name: "alternating players take turns when one dies", mode: GameMode.ALTERNATING, run: (s: Scenario) => {
+        let second = findFrogs(s.world)[1];
+        s.put(8, 6);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        check(s.frog.get(Player).waiting && !second.get(Player).waiting, "expected the second player's turn");
+        checkAt(second, 8, 0);
+
+        s.hop(Action.MOVE_UP, second);
+        checkAt(second, 8, 1);
+    }},
+    {name: "alternating play stays with the player who has lives left", mode: GameMode.ALTERNATING, run: (s: Scenario) => {
+        findFrogs(s.world)[1].get(Player).out = true;
+        s.put(8, 6);
+        s.hop(Action.MOVE_UP);
+        s.wait(0.1);
+
+        check(!s.frog.get(Player).waiting && s.frog.enabled, "expected the first player to play on");
+        checkAt(s.frog, 8, 0);
+    }},
+    {name: "simultaneous frogs bounce off each other", mode: GameMode.SIMULTANEOUS, run: (s: Scenario) => {
+        let second = findFrogs(s.world)[1];
+        s.put(4, 2);
+        s.put(4, 3, second);
+        s.wait(0.1);
+        s.hop(Action.MOVE_UP);
+
+        checkAt(s.frog, 4, 2);
+        checkAt(second, 4, 3);
+        checkDeaths(s, []);
+    }}
+];
+
+function runScenarios(args: string[]) {
+    let level = readLevel(SCENARIO_LEVEL);
+    let filter = args[0] || "";
+    let failed = 0;
+    let count = 0;
+
+    level.lanes = [];
+
+    for(let scenario of SCENARIOS) {
+        if(scenario.name.indexOf(filter) < 0)
+            continue;
+
+        count++;
+
+        try {
+            scenario.run(new Scenario(level, scenario.mode || GameMode.SINGLE));
+            console.log("ok    " + scenario.name);
+        } catch(e) {
+            failed++;
+            console.log("FAIL  " + scenario.name + ": " + e.message);
+        }
+    }
+
+    console.log(failed ? failed + " of " + count + " scenarios failed" : "all " + count + " scenarios passed");
+
+    if(failed || !count)
+        process.exit(1);
+}
+
+runScenarios(process.argv.slice(2));
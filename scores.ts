@@ -0,0 +1,77 @@
+// SCORING
+
+const POINTS_PER_ROW = 10;           // each row further forward than the frog has been this life
+const POINTS_HOME = 50;
+const POINTS_PER_SPARE_SECOND = 20;  // home bonus for each whole second left on the life timer
+const POINTS_PER_SPARE_LIFE = 200;   // added when the game is won by clearing the level file's last level
+const POINTS_FLY = 200;              // reaching a bay with a fly in it
+const POINTS_LADY_FROG = 200;        // bringing the lady frog home
+const HIGH_SCORE_COUNT = 10;
+
+function homeBonus(timeLeft: number): number {
+    return POINTS_HOME + POINTS_PER_SPARE_SECOND * Math.max(0, Math.floor(timeLeft));
+}
+
+interface HighScore {
+    name: string;
+    score: number;
+    level: number;
+}
+
+// Where the high score table is kept, e.g. localStorage in the browser or a file in headless runs
+interface HighScoreStore {
+    load(): HighScore[];
+    save(scores: HighScore[]): void;
+}
+
+class MemoryHighScoreStore implements HighScoreStore {
+    private scores: HighScore[] = [];
+
+    load(): HighScore[] {
+        return this.scores.slice();
+    }
+
+    save(scores: HighScore[]) {
+        this.scores = scores.slice();
+    }
+}
+
+// Best HIGH_SCORE_COUNT scores, highest first; ties keep the earlier entry ahead
+class HighScoreTable {
+    store: HighScoreStore;
+    entries: HighScore[];
+
+    best(): number {
+        return this.entries.length ? this.entries[0].score : 0;
+    }
+
+    qualifies(score: number): boolean {
+        return score > 0 && (this.entries.length < HIGH_SCORE_COUNT || score > this.entries[this.entries.length - 1].score);
+    }
+
+    // returns the entry's rank from 0, or -1 if it didn't make the table
+    add(entry: HighScore): number {
+        if(!this.qualifies(entry.score))
+            return -1;
+
+        let rank = 0;
+        while(rank < this.entries.length && this.entries[rank].score >= entry.score)
+            rank++;
+
+        this.entries.splice(rank, 0, entry);
+        this.entries = this.entries.slice(0, HIGH_SCORE_COUNT);
+        this.store.save(this.entries);
+
+        return rank;
+    }
+
+    constructor(store: HighScoreStore) {
+        this.store = store;
+
+        // stores may hold anything a user or an older version left there
+        this.entries = (store.load() || [])
+            .filter((e: HighScore) => e && typeof e.name === "string" && typeof e.score === "number")
+            .sort((a: HighScore, b: HighScore) => b.score - a.score)
+            .slice(0, HIGH_SCORE_COUNT);
+    }
+}
@@ -0,0 +1,76 @@
+///<reference path="headless.ts"/>
+///<reference path="states.ts"/>
+// Steps a headless World and prints a summary:
+//   tsc --outFile simulate.js simulate.ts && node simulate.js [level file] [frames] [high score file]
+
+const HOP_ACTIONS = [Action.MOVE_UP, Action.MOVE_LEFT, Action.MOVE_DOWN, Action.MOVE_RIGHT];
+
+function simulate(args: string[]) {
+    let level = readLevel(args[0] || "levels/classic.json");
+    let frames = parseInt(args[1]) || 10000;
+    let highScores = new HighScoreTable(args[2] ? new FileHighScoreStore(args[2]) : new MemoryHighScoreStore());
+
+    let world: World;
+    let flow: GameFlow;
+    let deaths = 0;
+    let games = 0;
+    let bestLevel = 1;
+    let bestScore = 0;
+    let gameOver = false;
+
+    function newGame() {
+        world = createHeadlessWorld(level);
+        world.properties.highScore = highScores.best();
+        games++;
+        gameOver = false;
+
+        let killFrog = world.scripts.killFrog;
+        world.scripts.killFrog = (frog: Entity, cause?: DeathCause) => {
+            deaths++;
+            killFrog(frog, cause);
+        };
+        world.scripts.gameOver = (self: World) => {
+            let score = findFrog(self).get(Score).points;
+
+            bestLevel = Math.max(bestLevel, self.properties.level);
+            bestScore = Math.max(bestScore, score);
+            highScores.add({name: "sim", score: score, level: self.properties.level});
+            gameOver = true;
+        };
+
+        flow = new GameFlow(world);
+    }
+
+    newGame();
+
+    let start = Date.now();
+
+    for(let frame = 0; frame < frames; frame++) {
+        // tap a random hop direction every quarter second, mostly forwards
+        if(frame % 15 == 0) {
+            world.press(HOP_ACTIONS[Math.random() < 0.6 ? 0 : Math.floor(Math.random() * HOP_ACTIONS.length)]);
+        } else if(frame % 15 == 5) {
+            for(let action of HOP_ACTIONS)
+                world.release(action);
+        }
+
+        flow.tick(world.inputs);
+
+        if(gameOver)
+            newGame();
+    }
+
+    let elapsed = Date.now() - start;
+
+    console.log(level.name + ": " + frames + " frames in " + elapsed + "ms (" +
+        Math.round(frames / Math.max(elapsed, 1) * 1000) + " frames/s)");
+    console.log("  games: " + games + ", deaths: " + deaths + ", best level: " + Math.max(bestLevel, world.properties.level) +
+        ", best score: " + bestScore + ", entities in last world: " + world.entities.length);
+    console.log("  pooled entities in last world: " + world.pool.size() + " free, " + world.pool.created + " made, " +
+        world.pool.reused + " reused");
+
+    if(args[2])
+        console.log("  high scores: " + highScores.entries.map((e: HighScore) => e.score).join(", "));
+}
+
+simulate(process.argv.slice(2));
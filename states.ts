@@ -0,0 +1,315 @@
+///<reference path="game.ts"/>
+///<reference path="bot.ts"/>
+// GAME STATES
+
+const DEATH_TIME = 1;        // seconds
+const LEVEL_CLEAR_TIME = 2;
+const RESTART_DELAY = 1;     // seconds after game over before a press restarts, so a held hop doesn't
+const ATTRACT_DELAY = 10;    // seconds the title waits for a press before the bot shows how to play
+const DEMO_TIME = 60;        // seconds the bot plays at most before going back to the title
+
+abstract class GameState {
+    flow: GameFlow;
+
+    enter() {}
+    exit() {}
+
+    // runs once per fixed timestep
+    tick(inputs: InputState) {}
+
+    // returns true if the press was used up and shouldn't reach the world
+    press(action: Action): boolean {
+        return false;
+    }
+
+    // shown over the game, one line per line break
+    overlay(): string {
+        return "";
+    }
+}
+
+// Left and right choose the game mode; any other press starts
+class TitleState extends GameState {
+    private mode: GameMode;
+    private idle: number = 0;
+
+    enter() {
+        this.mode = this.flow.world.properties.mode;
+    }
+
+    tick(inputs: InputState) {
+        this.idle += this.flow.world.timestep;
+
+        if(this.idle >= ATTRACT_DELAY && this.flow.onTitle)
+            this.flow.change(new DemoState());
+    }
+
+    press(action: Action): boolean {
+        let modes = GAME_MODE_NAMES.length;
+        this.idle = 0;
+
+        if(action === Action.MOVE_LEFT || action === Action.MOVE_RIGHT)
+            this.mode = (this.mode + ((action === Action.MOVE_LEFT) ? modes - 1 : 1)) % modes;
+        else if(this.mode !== this.flow.world.properties.mode && this.flow.onRestart)
+            this.flow.onRestart(this.mode);
+        else
+            this.flow.change(new PlayingState());
+
+        return true;
+    }
+
+    overlay(): string {
+        return "FROGGER\n< " + GAME_MODE_NAMES[this.mode] + " >\npress any key to start";
+    }
+}
+
+class PlayingState extends GameState {
+    tick(inputs: InputState) {
+        this.flow.advance(inputs);
+    }
+
+    press(action: Action): boolean {
+        if(action !== Action.PAUSE)
+            return false;
+
+        this.flow.change(new PausedState(this));
+        return true;
+    }
+}
+
+// The bot plays the first frog until it dies or clears the level, time runs out or someone presses a key,
+// then it's back to the title in a new world
+class DemoState extends GameState {
+    private bot: FrogBot;
+    private time: number = 0;
+
+    enter() {
+        this.bot = new FrogBot(findFrog(this.flow.world));
+    }
+
+    tick(inputs: InputState) {
+        this.flow.advance(this.bot.inputs());
+        this.time += this.flow.world.timestep;
+
+        if(this.flow.state !== this || this.time >= DEMO_TIME)
+            this.flow.onTitle();
+    }
+
+    press(action: Action): boolean {
+        this.flow.onTitle();
+        return true;
+    }
+
+    overlay(): string {
+        return "DEMO\npress any key";
+    }
+}
+
+class PausedState extends GameState {
+    private resume: GameState;
+
+    press(action: Action): boolean {
+        if(action === Action.PAUSE)
+            this.flow.change(this.resume);
+
+        return true;
+    }
+
+    overlay(): string {
+        return "PAUSED\npress pause to resume";
+    }
+
+    constructor(resume: GameState) {
+        super();
+
+        this.resume = resume;
+    }
+}
+
+// The world carries on while dead frogs sink out of sight
+class DyingState extends GameState {
+    private dying: {frog: Entity, time: number}[] = [];
+    private then: (frog: Entity) => void;
+
+    // another frog dying before the first has sunk, in a simultaneous game
+    add(frog: Entity) {
+        this.dying.push({frog: frog, time: 0});
+    }
+
+    tick(inputs: InputState) {
+        this.flow.advance(inputs);
+
+        for(let d of this.dying) {
+            d.time += this.flow.world.timestep;
+            d.frog.position.z = -Math.min(d.time / DEATH_TIME, 1);
+        }
+
+        let sunk = this.dying.filter((d: {frog: Entity, time: number}) => d.time >= DEATH_TIME);
+        this.dying = this.dying.filter((d: {frog: Entity, time: number}) => d.time < DEATH_TIME);
+
+        if(!this.dying.length)
+            this.flow.change(new PlayingState());
+
+        for(let d of sunk)
+            this.then(d.frog);
+    }
+
+    // lets every frog still sinking come back now
+    finish() {
+        let dying = this.dying;
+        this.dying = [];
+
+        for(let d of dying)
+            this.then(d.frog);
+    }
+
+    constructor(frog: Entity, then: (frog: Entity) => void) {
+        super();
+
+        this.add(frog);
+        this.then = then;
+    }
+}
+
+// Holds the game until something outside it moves it on, such as a race starting
+class WaitingState extends GameState {
+    private message: string;
+
+    press(action: Action): boolean {
+        return true;
+    }
+
+    overlay(): string {
+        return this.message;
+    }
+
+    constructor(message: string) {
+        super();
+
+        this.message = message;
+    }
+}
+
+class LevelClearState extends GameState {
+    private then: (world: World) => void;
+    private time: number = 0;
+    private frogs: Entity[];
+
+    // frogs in play sit still until the next level
+    enter() {
+        this.frogs = findFrogs(this.flow.world).filter((frog: Entity) => frog.enabled);
+
+        for(let frog of this.frogs) {
+            frog.enabled = false;
+            frog.solid = false;
+        }
+    }
+
+    exit() {
+        for(let frog of this.frogs) {
+            frog.enabled = true;
+            frog.solid = true;
+        }
+    }
+
+    tick(inputs: InputState) {
+        this.flow.advance(inputs);
+        this.time += this.flow.world.timestep;
+
+        if(this.time >= LEVEL_CLEAR_TIME) {
+            this.flow.change(new PlayingState());
+            this.then(this.flow.world);
+        }
+    }
+
+    overlay(): string {
+        return "LEVEL " + this.flow.world.properties.level + " CLEAR";
+    }
+
+    constructor(then: (world: World) => void) {
+        super();
+
+        this.then = then;
+    }
+}
+
+class GameOverState extends GameState {
+    private time: number = 0;
+
+    tick(inputs: InputState) {
+        this.time += this.flow.world.timestep;
+    }
+
+    press(action: Action): boolean {
+        if(this.time >= RESTART_DELAY && this.flow.onRestart)
+            this.flow.onRestart(this.flow.world.properties.mode);
+
+        return true;
+    }
+
+    overlay(): string {
+        return (this.time >= RESTART_DELAY && this.flow.onRestart) ? "GAME OVER\npress any key to restart" : "GAME OVER";
+    }
+}
+
+// Runs a world through the states of a game. It hooks the world's frogDied, levelComplete and gameOver
+// scripts, calling on to whatever they held when it was created, so other hooks must be set up first.
+class GameFlow {
+    world: World;
+    state: GameState = null;
+    advance: (inputs: InputState) => void; // ticks the world once
+    onRestart: (mode: GameMode) => void = null; // starts a new game in a new world
+    onTitle: () => void = null; // goes back to the title in a new world; the title plays a demo only with it set
+
+    change(state: GameState) {
+        if(this.state)
+            this.state.exit();
+
+        this.state = state;
+        state.flow = this;
+        state.enter();
+    }
+
+    tick(inputs: InputState) {
+        this.state.tick(inputs);
+    }
+
+    press(action: Action): boolean {
+        return this.state.press(action);
+    }
+
+    over(): boolean {
+        return this.state instanceof GameOverState;
+    }
+
+    constructor(world: World, advance: (inputs: InputState) => void = (inputs: InputState) => world.tick(inputs),
+                initial: GameState = new PlayingState()) {
+        this.world = world;
+        this.advance = advance;
+
+        let frogDied = world.scripts.frogDied;
+        world.scripts.frogDied = (frog: Entity) => {
+            if(this.state instanceof DyingState)
+                this.state.add(frog);
+            else
+                this.change(new DyingState(frog, frogDied));
+        };
+
+        // a frog still sinking as the other clears the level comes back for the next
+        let levelComplete = world.scripts.levelComplete;
+        world.scripts.levelComplete = (self: World) => {
+            if(this.state instanceof DyingState)
+                this.state.finish();
+
+            this.change(new LevelClearState(levelComplete));
+        };
+
+        let gameOver = world.scripts.gameOver;
+        world.scripts.gameOver = (self: World) => {
+            this.change(new GameOverState());
+            gameOver(self);
+        };
+
+        this.change(initial);
+    }
+}